@@ -16,6 +16,9 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/topics/:topicId" element={<Index />} />
+          <Route path="/topics/:topicId/lessons/:lessonId" element={<Index />} />
+          <Route path="/exercises/:exerciseId" element={<Index />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
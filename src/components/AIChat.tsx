@@ -1,57 +1,172 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Send, Bot, User } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Command, CommandGroup, CommandItem, CommandList, CommandSeparator } from '@/components/ui/command';
+import { Label } from '@/components/ui/label';
+import { Send, Bot, User, AlertCircle, Square, RefreshCw, Lightbulb, History, MessageSquarePlus, Settings2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAISettings } from '@/hooks/use-ai-settings';
+import { useChat, type RespondOptions } from '@/hooks/use-chat';
+import { ContextChip } from '@/components/ContextChip';
+import { ConversationHistory } from '@/components/ConversationHistory';
+import { PromptTemplatesDialog } from '@/components/PromptTemplatesDialog';
+import { UsageMeter } from '@/components/UsageMeter';
+import { Markdown, type ApplyCodeHandler } from '@/components/Markdown';
+import {
+  builtInCommands,
+  expandCommand,
+  getHintLevel,
+  getHintUsage,
+  getProviderInfo,
+  MAX_HINT_LEVEL,
+  nextHintPrompt,
+  listTemplates,
+  matchCommands,
+  onTemplatesChange,
+  recordHint,
+  templateCommand,
+  templateVars,
+  type ChatContext,
+  type SlashCommand,
+  type HintLevel,
+} from '@/lib/ai';
 
-interface Message {
-  id: string;
-  type: 'user' | 'ai';
-  content: string;
-  timestamp: Date;
+// How close to the bottom (px) still counts as "following" the conversation.
+const STICKY_SCROLL_THRESHOLD = 48;
+
+interface AIChatProps {
+  /** The learner's code and last run, offered as context for their questions. */
+  context?: ChatContext | null;
+  /** Puts a code block from a reply into the editor; the Apply menu is hidden without it. */
+  onApplyCode?: ApplyCodeHandler;
+  /** A message to send on the learner's behalf, e.g. from an editor quick action. Sent once per `id`. */
+  request?: ChatRequestPrompt | null;
+  /** The current topic or lesson: conversations are filed under it and tutor hints recorded against it. */
+  lessonKey?: string;
 }
 
-export const AIChat = () => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      type: 'ai',
-      content: 'Hello! I\'m your AI coding assistant. Ask me anything about programming concepts, debugging, or best practices!',
-      timestamp: new Date(),
-    },
-  ]);
+export interface ChatRequestPrompt {
+  id: number;
+  prompt: string;
+}
+
+export const AIChat = ({ context = null, onApplyCode, request = null, lessonKey = 'general' }: AIChatProps) => {
   const [input, setInput] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
+  const [includeContext, setIncludeContext] = useState(true);
+  const [tutorMode, setTutorMode] = useState(false);
+  const [hintUsage, setHintUsage] = useState(() => getHintUsage(lessonKey));
+  const [commandsDismissed, setCommandsDismissed] = useState(false);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const templates = useSyncExternalStore(onTemplatesChange, listTemplates);
+  const commands = useMemo(() => [...builtInCommands, ...templates.map(templateCommand)], [templates]);
+  const { toast } = useToast();
+  const settings = useAISettings();
+  const {
+    conversationId,
+    messages,
+    isStreaming,
+    saveFailed,
+    quotaNotice,
+    send,
+    stop,
+    regenerate,
+    canRegenerate,
+    openConversation,
+    newChat,
+  } = useChat(settings, lessonKey);
+  const activeContext = includeContext ? context : null;
+  const handledRequest = useRef<number | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const followRef = useRef(true);
 
-  const handleSendMessage = async () => {
-    if (!input.trim()) return;
+  const lastMessage = messages[messages.length - 1];
+  const isWaiting = isStreaming && !lastMessage.content;
+  const canAskNextHint =
+    tutorMode && !isStreaming && !lastMessage.error && lastMessage.hintLevel !== undefined && lastMessage.hintLevel < MAX_HINT_LEVEL;
+
+  useEffect(() => {
+    setHintUsage(getHintUsage(lessonKey));
+  }, [lessonKey]);
+
+  const ask = useCallback(
+    async (content: string, options: RespondOptions) => {
+      followRef.current = true;
+      const completed = await send(content, options);
+      if (completed && options.hintLevel) setHintUsage(recordHint(lessonKey, options.hintLevel));
+    },
+    [send, lessonKey],
+  );
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      type: 'user',
-      content: input,
-      timestamp: new Date(),
+  // Keep the newest text in view while it streams in, unless the learner scrolled up to read.
+  useEffect(() => {
+    const viewport = scrollRef.current?.querySelector<HTMLElement>('[data-radix-scroll-area-viewport]');
+    if (!viewport) return;
+    const handleScroll = () => {
+      followRef.current = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight < STICKY_SCROLL_THRESHOLD;
     };
+    viewport.addEventListener('scroll', handleScroll);
+    return () => viewport.removeEventListener('scroll', handleScroll);
+  }, []);
+
+  useEffect(() => {
+    const viewport = scrollRef.current?.querySelector<HTMLElement>('[data-radix-scroll-area-viewport]');
+    if (viewport && followRef.current) viewport.scrollTop = viewport.scrollHeight;
+  }, [messages]);
 
-    setMessages(prev => [...prev, userMessage]);
+  // The command list shows while the learner is still typing a command's name.
+  const typedCommand = /^\/(\S*)$/.exec(input)?.[1];
+  const commandMatches = typedCommand === undefined ? [] : matchCommands(commands, typedCommand);
+  const showCommands = commandMatches.length > 0 && !commandsDismissed;
+
+  const handleSendMessage = (text = input) => {
+    if (!text.trim() || isStreaming) return;
+    let command;
+    try {
+      // Placeholders are filled from the editor even when the context chip is off.
+      command = expandCommand(text, commands, templateVars(context));
+    } catch (error) {
+      toast({
+        title: "Command needs more",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return;
+    }
+    // In tutor mode every new question starts again at the gentlest hint.
+    ask(command?.prompt ?? text, { context: activeContext, hintLevel: command?.hintLevel ?? (tutorMode ? 1 : undefined) });
     setInput('');
-    setIsLoading(true);
-
-    // Simulate AI response
-    setTimeout(() => {
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        type: 'ai',
-        content: 'I understand you\'re asking about coding. This is a demo response. To get real AI assistance, you\'ll need to connect to a backend service with AI capabilities.',
-        timestamp: new Date(),
-      };
-      setMessages(prev => [...prev, aiMessage]);
-      setIsLoading(false);
-    }, 1000);
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
+  const handleCommandSelect = (command: SlashCommand) => {
+    if (command.usage || command.requiresInput) {
+      setInput(`/${command.name} `);
+    } else {
+      handleSendMessage(`/${command.name}`);
+    }
+  };
+
+  const handleNextHint = () => {
+    const level = (lastMessage.hintLevel + 1) as HintLevel;
+    ask(nextHintPrompt(level), { context: activeContext, hintLevel: level });
+  };
+
+  // Quick actions are about the code, so they always go out with the editor context attached.
+  useEffect(() => {
+    if (!request || handledRequest.current === request.id) return;
+    handledRequest.current = request.id;
+    setIncludeContext(true);
+    ask(request.prompt, { context, hintLevel: tutorMode ? 1 : undefined });
+  }, [request, ask, context, tutorMode]);
+
+  // While the command list is open, arrow keys and Enter are left to it (cmdk).
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (showCommands) {
+      if (e.key === 'Escape') setCommandsDismissed(true);
+      return;
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage();
@@ -65,13 +180,40 @@ export const AIChat = () => {
           <div className="w-8 h-8 rounded-full bg-gradient-primary flex items-center justify-center">
             <Bot className="w-4 h-4 text-primary-foreground" />
           </div>
-          <h3 className="font-semibold">AI Assistant</h3>
+          <div className="min-w-0">
+            <h3 className="font-semibold">AI Assistant</h3>
+            <p className="text-xs text-muted-foreground truncate" title={settings.model}>
+              {getProviderInfo(settings.provider).name}
+            </p>
+          </div>
+          <div className="ml-auto">
+            <UsageMeter />
+          </div>
+          <Button variant="ghost" size="sm" onClick={newChat} title="New chat">
+            <MessageSquarePlus className="w-4 h-4" />
+          </Button>
+          <ConversationHistory
+            currentId={conversationId}
+            currentGroup={lessonKey}
+            onSelect={openConversation}
+            onNewChat={newChat}
+          >
+            <Button variant="ghost" size="sm" title="Chat history">
+              <History className="w-4 h-4" />
+            </Button>
+          </ConversationHistory>
+          <div className="flex items-center gap-2" title="Get graduated hints instead of full answers">
+            <Label htmlFor="tutor-mode" className="text-xs text-muted-foreground">
+              Tutor
+            </Label>
+            <Switch id="tutor-mode" checked={tutorMode} onCheckedChange={setTutorMode} />
+          </div>
         </div>
       </div>
       
-      <ScrollArea className="flex-1 p-4">
+      <ScrollArea ref={scrollRef} className="flex-1 p-4">
         <div className="space-y-4">
-          {messages.map((message) => (
+          {messages.map((message) => (message === lastMessage && isWaiting ? null : (
             <div
               key={message.id}
               className={`flex items-start gap-3 ${message.type === 'user' ? 'flex-row-reverse' : ''}`}
@@ -84,18 +226,42 @@ export const AIChat = () => {
                 {message.type === 'ai' ? <Bot className="w-4 h-4" /> : <User className="w-4 h-4" />}
               </div>
               <div className={`max-w-[80%] rounded-lg p-3 ${
-                message.type === 'ai'
-                  ? 'bg-muted text-foreground'
-                  : 'bg-primary text-primary-foreground'
+                message.error
+                  ? 'bg-destructive/10 text-destructive border border-destructive/30'
+                  : message.type === 'ai'
+                    ? 'bg-muted text-foreground'
+                    : 'bg-primary text-primary-foreground'
               }`}>
-                <p className="text-sm">{message.content}</p>
-                <span className="text-xs opacity-70 mt-1 block">
-                  {message.timestamp.toLocaleTimeString()}
-                </span>
+                {message.error && <AlertCircle className="w-4 h-4 mb-1" />}
+                {message.hintLevel && !message.error && (
+                  <div className="flex items-center gap-1 mb-1 text-xs text-accent">
+                    <Lightbulb className="w-3 h-3" />
+                    Hint {message.hintLevel}/{MAX_HINT_LEVEL} · {getHintLevel(message.hintLevel).name}
+                  </div>
+                )}
+                {message.type === 'ai' && !message.error ? (
+                  <Markdown content={message.content} onApplyCode={isStreaming && message === lastMessage ? undefined : onApplyCode} />
+                ) : (
+                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                )}
+                <div className="flex items-center gap-2 mt-1 text-xs opacity-70">
+                  <span>{message.timestamp.toLocaleTimeString()}</span>
+                  {message.stopped && <span>· Stopped</span>}
+                  {message === lastMessage && canRegenerate && (
+                    <button
+                      className="ml-auto flex items-center gap-1 hover:opacity-100"
+                      onClick={() => regenerate(activeContext, tutorMode ? 1 : undefined)}
+                      title={message.type === 'user' ? 'Send this question again' : 'Regenerate response'}
+                    >
+                      <RefreshCw className="w-3 h-3" />
+                      {message.type === 'user' ? 'Send again' : 'Regenerate'}
+                    </button>
+                  )}
+                </div>
               </div>
             </div>
-          ))}
-          {isLoading && (
+          )))}
+          {isWaiting && (
             <div className="flex items-start gap-3">
               <div className="w-8 h-8 rounded-full bg-gradient-primary flex items-center justify-center">
                 <Bot className="w-4 h-4 text-primary-foreground" />
@@ -112,20 +278,82 @@ export const AIChat = () => {
         </div>
       </ScrollArea>
 
-      <div className="p-4 border-t border-border">
-        <div className="flex gap-2">
-          <Input
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder="Ask me about coding..."
-            className="flex-1"
-          />
-          <Button onClick={handleSendMessage} disabled={!input.trim() || isLoading}>
-            <Send className="w-4 h-4" />
-          </Button>
-        </div>
+      <div className="p-4 border-t border-border space-y-2">
+        {quotaNotice && (
+          <p className="flex items-center gap-1 text-xs text-destructive">
+            <AlertCircle className="w-3 h-3 shrink-0" />
+            {quotaNotice}
+          </p>
+        )}
+        {saveFailed && (
+          <p className="flex items-center gap-1 text-xs text-destructive">
+            <AlertCircle className="w-3 h-3 shrink-0" />
+            This chat isn't being saved because the browser's storage is full. Delete old chats from history to make room.
+          </p>
+        )}
+        {canAskNextHint && (
+          <div className="flex items-center justify-between gap-2">
+            <Button variant="outline" size="sm" onClick={handleNextHint}>
+              <Lightbulb className="w-4 h-4 mr-1" />
+              Next hint: {getHintLevel((lastMessage.hintLevel + 1) as HintLevel).name}
+            </Button>
+            {hintUsage && (
+              <span className="text-xs text-muted-foreground truncate">
+                Most help here: {getHintLevel(hintUsage.maxLevel).name}
+              </span>
+            )}
+          </div>
+        )}
+        {context && (
+          <ContextChip context={context} enabled={includeContext} onToggle={() => setIncludeContext((include) => !include)} />
+        )}
+        <Command shouldFilter={false} loop className="relative h-auto overflow-visible rounded-none bg-transparent text-foreground">
+          {showCommands && (
+            <CommandList className="absolute bottom-full left-0 right-0 mb-2 max-h-64 rounded-md border border-border bg-popover text-popover-foreground shadow-md">
+              {commandMatches.length > 0 && (
+                <CommandGroup heading="Commands">
+                  {commandMatches.map((command) => (
+                    <CommandItem key={command.name} value={command.name} onSelect={() => handleCommandSelect(command)}>
+                      <span className="font-mono">/{command.name}</span>
+                      {command.usage && <span className="ml-1 font-mono text-muted-foreground">{command.usage}</span>}
+                      <span className="ml-auto pl-3 text-xs text-muted-foreground truncate">{command.description}</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              <CommandSeparator />
+              <CommandGroup>
+                <CommandItem value="manage-templates" onSelect={() => setTemplatesOpen(true)}>
+                  <Settings2 className="w-4 h-4 mr-2" />
+                  Manage prompt templates…
+                </CommandItem>
+              </CommandGroup>
+            </CommandList>
+          )}
+          <div className="flex gap-2">
+            <Input
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setCommandsDismissed(false);
+              }}
+              onKeyDown={handleKeyDown}
+              placeholder="Ask me about coding, or type / for commands..."
+              className="flex-1"
+            />
+            {isStreaming ? (
+              <Button variant="secondary" onClick={stop} title="Stop generating">
+                <Square className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button onClick={() => handleSendMessage()} disabled={!input.trim()}>
+                <Send className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </Command>
       </div>
+      <PromptTemplatesDialog open={templatesOpen} onOpenChange={setTemplatesOpen} />
     </Card>
   );
 };
\ No newline at end of file
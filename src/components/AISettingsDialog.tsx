@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAISettings } from '@/hooks/use-ai-settings';
+import { getProviderInfo, providers, saveAISettings, settingsFor, type ProviderKind } from '@/lib/ai';
+
+interface AISettingsDialogProps {
+  children: React.ReactNode;
+}
+
+export const AISettingsDialog = ({ children }: AISettingsDialogProps) => {
+  const settings = useAISettings();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(settings);
+  const { toast } = useToast();
+  const info = getProviderInfo(draft.provider);
+
+  const handleOpenChange = (next: boolean) => {
+    // Start from what's saved every time, so cancelled edits don't linger.
+    if (next) setDraft(settings);
+    setOpen(next);
+  };
+
+  const handleSave = () => {
+    saveAISettings(draft);
+    setOpen(false);
+    toast({
+      title: "Settings saved",
+      description: `The assistant now uses ${info.name}`,
+      duration: 2000,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>AI assistant</DialogTitle>
+          <DialogDescription>Choose which model answers in the chat. Settings are stored in this browser only.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="ai-provider">Provider</Label>
+            <Select
+              value={draft.provider}
+              onValueChange={(provider) => setDraft(settingsFor(provider as ProviderKind, draft.apiKey))}
+            >
+              <SelectTrigger id="ai-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {providers.map((provider) => (
+                  <SelectItem key={provider.id} value={provider.id}>
+                    {provider.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{info.description}</p>
+          </div>
+          {draft.provider !== 'mock' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="ai-base-url">Base URL</Label>
+                <Input
+                  id="ai-base-url"
+                  value={draft.baseUrl}
+                  onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+                  placeholder={info.defaultBaseUrl}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ai-model">Model</Label>
+                <Input
+                  id="ai-model"
+                  value={draft.model}
+                  onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                  placeholder={info.defaultModel}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ai-api-key">API key{info.needsApiKey ? '' : ' (optional)'}</Label>
+                <Input
+                  id="ai-api-key"
+                  type="password"
+                  autoComplete="off"
+                  value={draft.apiKey}
+                  onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                />
+              </div>
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={draft.provider !== 'mock' && (!draft.baseUrl.trim() || !draft.model.trim() || (info.needsApiKey && !draft.apiKey.trim()))}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,19 +1,196 @@
-import { useState } from 'react';
+import { forwardRef, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import CodeMirror from '@uiw/react-codemirror';
+import type { EditorState } from '@codemirror/state';
+import type { EditorView } from '@codemirror/view';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Play, Copy, Download } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import { Play, Copy, Download, Loader2, FolderOpen, Upload, X, PanelLeft, RotateCcw, Check, Sparkles, ClipboardCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import type { DraftStatus } from '@/hooks/use-draft';
+import { FileTree } from '@/components/FileTree';
+import type { RunPhase } from '@/lib/sandbox';
+import { languageExtension } from '@/lib/editor/languages';
+import { codeTheme } from '@/lib/editor/theme';
+import { errorLineHighlight } from '@/lib/editor/error-line';
+import { quickActions, type QuickAction } from '@/lib/ai';
+import {
+  defaultFileName,
+  downloadFile,
+  editorLanguageFor,
+  fitsProject,
+  openableExtensions,
+  readFile,
+  type OpenedFile,
+} from '@/lib/editor/files';
+import {
+  addFile,
+  basename,
+  createProject,
+  deleteFile,
+  renameFile,
+  setEntry,
+  updateFile,
+  type Project,
+  type SourceLocation,
+  type SourceRange,
+} from '@/lib/project';
 
 interface CodeEditorProps {
   language: string;
   initialCode?: string;
-  onRunCode?: (code: string) => void;
+  /** Multi-file starting point; takes precedence over `initialCode`. */
+  initialProject?: Project;
+  onRunCode?: (project: Project, activeFile: string) => void;
+  runPhase?: RunPhase | null;
+  /** Checks the project against the exercise's tests; the Submit button is hidden without it. */
+  onSubmit?: (project: Project, activeFile: string) => void;
+  submitPhase?: RunPhase | null;
+  onProjectChange?: (project: Project) => void;
+  /** Line to flag, e.g. where the last error was raised. Only shown while its file is open. */
+  highlight?: SourceLocation | null;
+  /** Called when the learner opens a file that belongs in a different topic than `language`. */
+  onOpenFile?: (file: OpenedFile) => void;
+  /** Autosave state of the draft; the indicator is hidden when omitted. */
+  saveStatus?: DraftStatus;
+  /** Discards the draft and goes back to the original example. */
+  onReset?: () => void;
+  /** Reports the cursor or selection in the open file, including when switching tabs. */
+  onSelectionChange?: (selection: SourceRange) => void;
+  /** Asks the assistant about the selection, or the open file; the AI menus are hidden without it. */
+  onQuickAction?: (action: QuickAction) => void;
 }
 
-export const CodeEditor = ({ language, initialCode = '', onRunCode }: CodeEditorProps) => {
-  const [code, setCode] = useState(initialCode);
+export interface CodeEditorHandle {
+  getFile(path: string): string | undefined;
+  /**
+   * Replaces a file's contents as a single edit, opening it if needed. Goes through the editor
+   * when the file is showing, so Ctrl+Z undoes it like any other change.
+   */
+  setFile(path: string, content: string): void;
+}
+
+export const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({
+  language,
+  initialCode = '',
+  initialProject,
+  onRunCode,
+  runPhase = null,
+  onSubmit,
+  submitPhase = null,
+  onProjectChange,
+  highlight = null,
+  onOpenFile,
+  saveStatus,
+  onReset,
+  onSelectionChange,
+  onQuickAction,
+}, ref) => {
+  const [project, setProject] = useState(() => initialProject ?? createProject(defaultFileName(language), initialCode));
+  const [openTabs, setOpenTabs] = useState(() => Object.keys(project.files));
+  const [activePath, setActivePath] = useState(project.entry);
+  const [showFiles, setShowFiles] = useState(() => Object.keys(project.files).length > 1);
+  const [isDragging, setIsDragging] = useState(false);
+  const [hasSelection, setHasSelection] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
   const { toast } = useToast();
 
+  const code = project.files[activePath] ?? '';
+  const askLabel = hasSelection ? 'Ask about the selection' : `Ask about ${basename(activePath)}`;
+  const editorLanguage = editorLanguageFor(activePath, language);
+  const highlightLine = highlight?.file === activePath ? highlight.line : null;
+  const extensions = useMemo(
+    () => [languageExtension(editorLanguage), errorLineHighlight(highlightLine)],
+    [editorLanguage, highlightLine],
+  );
+
+  const commit = (next: Project) => {
+    setProject(next);
+    onProjectChange?.(next);
+  };
+
+  // Project operations throw on invalid names; surface those as toasts instead.
+  const attempt = (action: () => void) => {
+    try {
+      action();
+      return true;
+    } catch (error) {
+      toast({
+        title: "Couldn't update files",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const openTab = (path: string) => {
+    setOpenTabs((tabs) => (tabs.includes(path) ? tabs : [...tabs, path]));
+    setActivePath(path);
+  };
+
+  const closeTab = (path: string) => {
+    const remaining = openTabs.filter((tab) => tab !== path);
+    setOpenTabs(remaining);
+    if (path === activePath) {
+      setActivePath(remaining[remaining.length - 1] ?? project.entry);
+      if (remaining.length === 0) setOpenTabs([project.entry]);
+    }
+  };
+
+  const handleCreate = (input: string) =>
+    attempt(() => {
+      const next = addFile(project, input);
+      const created = Object.keys(next.files).find((path) => !(path in project.files));
+      commit(next);
+      if (created) openTab(created);
+    });
+
+  const handleRename = (from: string, to: string) =>
+    attempt(() => {
+      const next = renameFile(project, from, to);
+      const renamed = Object.keys(next.files).find((path) => !(path in project.files)) ?? from;
+      commit(next);
+      setOpenTabs((tabs) => tabs.map((tab) => (tab === from ? renamed : tab)));
+      if (activePath === from) setActivePath(renamed);
+    });
+
+  const handleDelete = (path: string) =>
+    attempt(() => {
+      const next = deleteFile(project, path);
+      commit(next);
+      const remaining = openTabs.filter((tab) => tab !== path);
+      setOpenTabs(remaining.length ? remaining : [next.entry]);
+      if (activePath === path) setActivePath(remaining[remaining.length - 1] ?? next.entry);
+    });
+
   const handleCopyCode = () => {
     navigator.clipboard.writeText(code);
     toast({
@@ -23,46 +200,297 @@ export const CodeEditor = ({ language, initialCode = '', onRunCode }: CodeEditor
     });
   };
 
-  const handleRunCode = () => {
-    onRunCode?.(code);
+  const handleDownload = () => {
+    downloadFile(basename(activePath), code);
     toast({
-      title: "Code executed!",
-      description: "Check the output below",
+      title: "Download started",
+      description: `Saved as ${basename(activePath)}`,
       duration: 2000,
     });
   };
 
+  const openFile = async (file: File) => {
+    try {
+      const opened = await readFile(file);
+      if (opened.language && !fitsProject(opened.language, language) && onOpenFile) {
+        onOpenFile(opened);
+        return;
+      }
+      // Opening a file that's already in the project replaces its contents.
+      commit(opened.name in project.files ? updateFile(project, opened.name, opened.content) : addFile(project, opened.name, opened.content));
+      openTab(opened.name);
+      toast({
+        title: "File opened",
+        description: `Loaded ${opened.name}`,
+        duration: 2000,
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't open file",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) openFile(file);
+  };
+
+  const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  // Handled in the capture phase so CodeMirror doesn't also paste the file's text at the drop point.
+  const handleDropCapture = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) openFile(file);
+  };
+
+  const handleChange = (value: string) => {
+    commit(updateFile(project, activePath, value));
+  };
+
+  const reportSelection = (state: EditorState) => {
+    const { from, to } = state.selection.main;
+    setHasSelection(from !== to);
+    onSelectionChange?.({
+      file: activePath,
+      startLine: state.doc.lineAt(from).number,
+      endLine: state.doc.lineAt(to).number,
+      from,
+      to,
+      text: state.sliceDoc(from, to),
+    });
+  };
+
+  useImperativeHandle(ref, () => ({
+    getFile: (path) => project.files[path],
+    setFile: (path, content) => {
+      const view = viewRef.current;
+      if (path === activePath && view) {
+        view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: content } });
+      } else {
+        commit(updateFile(project, path, content));
+        openTab(path);
+      }
+    },
+  }));
+
+  const handleRunCode = () => {
+    onRunCode?.(project, activePath);
+  };
+
   return (
-    <Card className="h-full bg-code-bg border-code-border shadow-card">
+    <Card
+      className="relative h-full bg-code-bg border-code-border shadow-card flex flex-col"
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false);
+      }}
+      onDropCapture={handleDropCapture}
+    >
       <div className="flex items-center justify-between p-4 border-b border-code-border">
         <div className="flex items-center gap-2">
           <div className="w-3 h-3 rounded-full bg-destructive"></div>
           <div className="w-3 h-3 rounded-full bg-yellow-500"></div>
           <div className="w-3 h-3 rounded-full bg-accent"></div>
-          <span className="ml-2 text-sm text-muted-foreground">{language}</span>
+          <Button variant="ghost" size="sm" className="ml-1" onClick={() => setShowFiles((show) => !show)} title="Toggle files">
+            <PanelLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">{language}</span>
+          {saveStatus === 'saved' && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground" title="Draft saved in this browser">
+              <Check className="w-3 h-3" />
+              Saved
+            </span>
+          )}
+          {saveStatus === 'unsaved' && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground" title="Changes not saved yet">
+              <span className="w-1.5 h-1.5 rounded-full bg-yellow-500" />
+              Unsaved
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-2">
+          {onReset && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="sm" disabled={saveStatus === 'original'} title="Reset to original example">
+                  <RotateCcw className="w-4 h-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Reset to the original example?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Your saved draft for this topic, including any files you added, will be discarded.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={onReset}>Reset</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+          {onQuickAction && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" title="Ask the AI assistant">
+                  <Sparkles className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                  {askLabel}
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {quickActions.map((action) => (
+                  <DropdownMenuItem key={action.id} onSelect={() => onQuickAction(action)}>
+                    {action.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
           <Button variant="ghost" size="sm" onClick={handleCopyCode}>
             <Copy className="w-4 h-4" />
           </Button>
-          <Button variant="ghost" size="sm">
+          <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()} title="Open file">
+            <FolderOpen className="w-4 h-4" />
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={openableExtensions.join(',')}
+            onChange={handleFileInput}
+            className="hidden"
+          />
+          <Button variant="ghost" size="sm" onClick={handleDownload} title={`Download ${basename(activePath)}`}>
             <Download className="w-4 h-4" />
           </Button>
-          <Button variant="default" size="sm" onClick={handleRunCode} className="bg-gradient-primary">
-            <Play className="w-4 h-4 mr-1" />
-            Run
+          {onSubmit && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onSubmit(project, activePath)}
+              disabled={runPhase !== null || submitPhase !== null}
+              title="Run the exercise's tests"
+            >
+              {submitPhase ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <ClipboardCheck className="w-4 h-4 mr-1" />}
+              {submitPhase === 'loading' ? 'Loading…' : 'Submit'}
+            </Button>
+          )}
+          <Button
+            variant="default"
+            size="sm"
+            onClick={handleRunCode}
+            disabled={runPhase !== null || submitPhase !== null}
+            className="bg-gradient-primary"
+          >
+            {runPhase ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Play className="w-4 h-4 mr-1" />}
+            {runPhase === 'loading' ? 'Loading…' : 'Run'}
           </Button>
         </div>
       </div>
-      <div className="p-4 h-[calc(100%-80px)]">
-        <textarea
-          value={code}
-          onChange={(e) => setCode(e.target.value)}
-          className="w-full h-full bg-transparent text-foreground font-mono text-sm resize-none outline-none"
-          placeholder={`Write your ${language} code here...`}
-          spellCheck="false"
-        />
+      <div className="flex-1 min-h-0 flex">
+        {showFiles && (
+          <div className="w-44 shrink-0 border-r border-code-border">
+            <FileTree
+              paths={Object.keys(project.files)}
+              entry={project.entry}
+              activePath={activePath}
+              onSelect={openTab}
+              onCreate={handleCreate}
+              onRename={handleRename}
+              onDelete={handleDelete}
+              onSetEntry={(path) => commit(setEntry(project, path))}
+            />
+          </div>
+        )}
+        <div className="flex-1 min-w-0 flex flex-col">
+          <div className="flex items-end gap-px overflow-x-auto border-b border-code-border">
+            {openTabs.map((path) => (
+              <div
+                key={path}
+                className={`group flex items-center gap-1 pl-3 pr-1 py-1.5 text-xs font-mono cursor-pointer border-b-2 ${
+                  path === activePath
+                    ? 'border-primary text-foreground bg-muted/40'
+                    : 'border-transparent text-muted-foreground hover:bg-muted/20'
+                }`}
+                onClick={() => setActivePath(path)}
+                title={path}
+              >
+                {path === project.entry && <Play className="w-3 h-3 text-accent" />}
+                <span>{basename(path)}</span>
+                <button
+                  className="p-0.5 rounded opacity-0 group-hover:opacity-100 hover:bg-muted"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    closeTab(path);
+                  }}
+                  title="Close tab"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <ContextMenu modal={false}>
+            <ContextMenuTrigger asChild disabled={!onQuickAction}>
+              <div className="flex-1 min-h-0 overflow-hidden">
+                <CodeMirror
+                  key={activePath}
+                  value={code}
+                  onChange={handleChange}
+                  onCreateEditor={(view, state) => {
+                    viewRef.current = view;
+                    reportSelection(state);
+                  }}
+                  onUpdate={(update) => update.selectionSet && reportSelection(update.state)}
+                  theme={codeTheme}
+                  extensions={extensions}
+                  height="100%"
+                  className="h-full"
+                  placeholder={`Write your ${language} code here...`}
+                  basicSetup={{ tabSize: editorLanguage === 'python' ? 4 : 2 }}
+                  indentWithTab
+                />
+              </div>
+            </ContextMenuTrigger>
+            <ContextMenuContent>
+              <ContextMenuLabel className="text-xs font-normal text-muted-foreground">
+                {askLabel}
+              </ContextMenuLabel>
+              <ContextMenuSeparator />
+              {quickActions.map((action) => (
+                <ContextMenuItem key={action.id} onSelect={() => onQuickAction?.(action)}>
+                  {action.label}
+                </ContextMenuItem>
+              ))}
+            </ContextMenuContent>
+          </ContextMenu>
+        </div>
       </div>
+      {isDragging && (
+        <div className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed border-primary bg-background/80 text-sm text-muted-foreground pointer-events-none">
+          <Upload className="w-6 h-6 text-primary" />
+          Drop a file to open it
+        </div>
+      )}
     </Card>
   );
-};
\ No newline at end of file
+});
+CodeEditor.displayName = 'CodeEditor';
@@ -0,0 +1,48 @@
+import { FileCode, AlertCircle, Terminal } from 'lucide-react';
+import { basename } from '@/lib/project';
+import { errorCount, hasSelection, type ChatContext } from '@/lib/ai';
+
+interface ContextChipProps {
+  context: ChatContext;
+  enabled: boolean;
+  onToggle: () => void;
+}
+
+/** Shows what editor state will be sent with the next message; clicking it leaves it out. */
+export const ContextChip = ({ context, enabled, onToggle }: ContextChipProps) => {
+  const { selection, output } = context;
+  const errors = errorCount(context);
+
+  return (
+    <button
+      type="button"
+      aria-pressed={enabled}
+      onClick={onToggle}
+      title={enabled ? 'Your code and last run are included. Click to leave them out.' : 'Click to include your code and last run'}
+      className={`inline-flex max-w-full items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-xs transition-colors ${
+        enabled
+          ? 'border-primary/40 bg-primary/10 text-foreground'
+          : 'border-border text-muted-foreground line-through decoration-muted-foreground/60'
+      }`}
+    >
+      <FileCode className="w-3 h-3 shrink-0" />
+      <span className="truncate font-mono">{basename(context.activeFile)}</span>
+      {hasSelection(context) && (
+        <span className="shrink-0">
+          · {selection.startLine === selection.endLine ? `line ${selection.startLine}` : `lines ${selection.startLine}–${selection.endLine}`}
+        </span>
+      )}
+      {errors > 0 ? (
+        <span className="flex shrink-0 items-center gap-0.5 text-destructive">
+          · <AlertCircle className="w-3 h-3" /> {errors === 1 ? '1 error' : `${errors} errors`}
+        </span>
+      ) : (
+        output.length > 0 && (
+          <span className="flex shrink-0 items-center gap-0.5">
+            · <Terminal className="w-3 h-3" /> output
+          </span>
+        )
+      )}
+    </button>
+  );
+};
@@ -0,0 +1,276 @@
+import { useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Download, FileDown, MessageSquarePlus, Pencil, Printer, Search, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/editor/files';
+import {
+  conversationFileName,
+  conversationToHtml,
+  conversationToJson,
+  conversationToMarkdown,
+  deleteConversation,
+  groupLabel,
+  importConversation,
+  listConversations,
+  onConversationsChange,
+  parseConversationJson,
+  renameConversation,
+  searchConversations,
+  type Conversation,
+  type ConversationMatch,
+} from '@/lib/ai';
+
+interface ConversationHistoryProps {
+  children: React.ReactNode;
+  currentId: string | null;
+  /** Group of the chat that's open; its conversations are listed first. */
+  currentGroup: string;
+  onSelect: (id: string) => void;
+  onNewChat: () => void;
+}
+
+const formatDate = (time: number) => {
+  const date = new Date(time);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+const printConversation = (conversation: Conversation) => {
+  const page = window.open('', '_blank');
+  if (!page) return false;
+  page.document.write(conversationToHtml(conversation));
+  page.document.close();
+  page.focus();
+  page.print();
+  return true;
+};
+
+export const ConversationHistory = ({ children, currentId, currentGroup, onSelect, onNewChat }: ConversationHistoryProps) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Conversation | null>(null);
+  const conversations = useSyncExternalStore(onConversationsChange, listConversations);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const groups = useMemo(() => {
+    const byGroup = new Map<string, ConversationMatch[]>();
+    for (const match of searchConversations(query, conversations)) {
+      const { group } = match.conversation;
+      byGroup.set(group, [...(byGroup.get(group) ?? []), match]);
+    }
+    return [...byGroup].sort(([a], [b]) => Number(b === currentGroup) - Number(a === currentGroup));
+  }, [conversations, query, currentGroup]);
+
+  const commitRename = () => {
+    if (renaming) renameConversation(renaming.id, renaming.title);
+    setRenaming(null);
+  };
+
+  const handleDelete = () => {
+    if (!pendingDelete) return;
+    deleteConversation(pendingDelete.id);
+    if (pendingDelete.id === currentId) onNewChat();
+    setPendingDelete(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = importConversation(parseConversationJson(await file.text()));
+      onSelect(imported.id);
+      setOpen(false);
+      toast({
+        title: "Conversation imported",
+        description: `Continuing "${imported.title}"`,
+        duration: 2000,
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't import conversation",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePrint = (conversation: Conversation) => {
+    if (printConversation(conversation)) return;
+    toast({
+      title: "Couldn't open the transcript",
+      description: "Allow pop-ups for this site, or export as HTML and print that",
+      variant: "destructive",
+    });
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>{children}</SheetTrigger>
+      <SheetContent side="right" className="flex flex-col gap-4 w-full sm:max-w-sm">
+        <SheetHeader>
+          <SheetTitle>Chat history</SheetTitle>
+          <SheetDescription>Conversations are saved in this browser.</SheetDescription>
+        </SheetHeader>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={() => {
+              onNewChat();
+              setOpen(false);
+            }}
+          >
+            <MessageSquarePlus className="w-4 h-4 mr-2" />
+            New chat
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} title="Import a conversation exported as JSON">
+            <FileDown className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        </div>
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search messages..." className="pl-8" />
+        </div>
+        <ScrollArea className="flex-1 -mx-2">
+          {groups.length === 0 && (
+            <p className="px-2 text-sm text-muted-foreground">{query ? 'No conversations match.' : 'No saved conversations yet.'}</p>
+          )}
+          {groups.map(([group, matches]) => (
+            <div key={group} className="mb-4">
+              <h4 className="px-2 mb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">{groupLabel(group)}</h4>
+              {matches.map(({ conversation, snippet }) =>
+                renaming?.id === conversation.id ? (
+                  <Input
+                    key={conversation.id}
+                    autoFocus
+                    value={renaming.title}
+                    onChange={(e) => setRenaming({ ...renaming, title: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    onBlur={commitRename}
+                    className="h-8 mx-2 w-[calc(100%-1rem)] text-sm"
+                  />
+                ) : (
+                  <div
+                    key={conversation.id}
+                    className={`group flex items-start gap-1 rounded-md px-2 py-1.5 cursor-pointer ${
+                      conversation.id === currentId ? 'bg-muted' : 'hover:bg-muted/50'
+                    }`}
+                    onClick={() => {
+                      onSelect(conversation.id);
+                      setOpen(false);
+                    }}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">{conversation.title}</p>
+                      {snippet && <p className="text-xs text-muted-foreground line-clamp-2">{snippet}</p>}
+                      <p className="text-xs text-muted-foreground">{formatDate(conversation.updatedAt)}</p>
+                    </div>
+                    <button
+                      className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-background"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setRenaming({ id: conversation.id, title: conversation.title });
+                      }}
+                      title="Rename"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <button
+                          className="p-1 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 data-[state=open]:opacity-100 hover:bg-background"
+                          onClick={(e) => e.stopPropagation()}
+                          title="Export"
+                        >
+                          <Download className="w-3 h-3" />
+                        </button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                        <DropdownMenuItem
+                          onSelect={() => downloadFile(conversationFileName(conversation, 'md'), conversationToMarkdown(conversation))}
+                        >
+                          Markdown
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onSelect={() => downloadFile(conversationFileName(conversation, 'json'), conversationToJson(conversation))}
+                        >
+                          JSON (can be imported)
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onSelect={() => downloadFile(conversationFileName(conversation, 'html'), conversationToHtml(conversation))}
+                        >
+                          HTML transcript
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => handlePrint(conversation)}>
+                          <Printer className="w-4 h-4 mr-2" />
+                          Print…
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    <button
+                      className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-background text-destructive"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setPendingDelete(conversation);
+                      }}
+                      title="Delete"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                ),
+              )}
+            </div>
+          ))}
+        </ScrollArea>
+      </SheetContent>
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(next) => !next && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingDelete?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>The conversation will be removed from your history.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sheet>
+  );
+};
@@ -0,0 +1,76 @@
+import { useSyncExternalStore } from 'react';
+import { Link } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle, Circle, Target } from 'lucide-react';
+import {
+  courseProgress,
+  getCompletedLessons,
+  isLessonComplete,
+  onProgressChange,
+  setLessonComplete,
+  type Course,
+} from '@/lib/curriculum';
+import { lessonPath } from '@/lib/routes';
+
+interface CourseProgressProps {
+  /** Null for topics that have no course content yet. */
+  course: Course | null;
+  selectedLessonId: string | null;
+}
+
+export const CourseProgress = ({ course, selectedLessonId }: CourseProgressProps) => {
+  const completed = useSyncExternalStore(onProgressChange, getCompletedLessons);
+  const { complete, total } = course ? courseProgress(course, completed) : { complete: 0, total: 0 };
+
+  return (
+    <Card className="p-6 bg-card border-border shadow-card">
+      <div className="flex items-center gap-2 mb-4">
+        <Target className="w-5 h-5 text-primary" />
+        <h3 className="font-semibold">Progress</h3>
+      </div>
+      {!course ? (
+        <p className="text-sm text-muted-foreground">Lessons for this topic are coming soon. The editor and assistant work in the meantime.</p>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <div className="flex justify-between text-sm mb-2">
+              <span>{course.title}</span>
+              <span>{complete}/{total}</span>
+            </div>
+            <Progress value={total ? (complete / total) * 100 : 0} className="h-2" />
+          </div>
+          {course.modules.map((module) => (
+            <div key={module.id} className="space-y-1">
+              <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{module.title}</h4>
+              {module.lessons.map((lesson) => {
+                const done = isLessonComplete(course.id, lesson.id, completed);
+                const selected = lesson.id === selectedLessonId;
+                return (
+                  <div
+                    key={lesson.id}
+                    className={`flex items-start gap-2 p-2 rounded-lg transition-colors ${selected ? 'bg-muted' : 'hover:bg-muted/50'}`}
+                  >
+                    <button
+                      type="button"
+                      className="mt-0.5"
+                      onClick={() => setLessonComplete(course.id, lesson.id, !done)}
+                      title={done ? 'Mark as not done' : 'Mark as done'}
+                      aria-pressed={done}
+                    >
+                      {done ? <CheckCircle className="w-4 h-4 text-accent" /> : <Circle className="w-4 h-4 text-muted-foreground" />}
+                    </button>
+                    <Link to={lessonPath(course.id, lesson.id)} className="flex-1 min-w-0" aria-current={selected ? 'page' : undefined}>
+                      <span className={`text-sm ${done || selected ? 'text-foreground' : 'text-muted-foreground'}`}>{lesson.title}</span>
+                      {selected && <p className="text-xs text-muted-foreground mt-0.5">{lesson.summary}</p>}
+                    </Link>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,85 @@
+import { useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertCircle } from 'lucide-react';
+import { diffLines, type DiffLine, type DiffRow } from '@/lib/editor/diff';
+
+interface DiffPreviewDialogProps {
+  open: boolean;
+  file: string;
+  before: string;
+  /** The proposed contents, or the reason they couldn't be worked out. */
+  after: string | null;
+  error?: string | null;
+  onAccept: () => void;
+  onCancel: () => void;
+}
+
+const sideClass = (row: DiffRow, side: 'left' | 'right') => {
+  if (row.type === 'same') return '';
+  if (side === 'left') return row.left ? 'bg-destructive/15' : 'bg-muted/30';
+  return row.right ? 'bg-accent/15' : 'bg-muted/30';
+};
+
+const Cell = ({ line, className }: { line?: DiffLine; className: string }) => (
+  <div className={`flex min-w-0 ${className}`}>
+    <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground">{line?.number ?? ''}</span>
+    <span className="whitespace-pre-wrap break-all">{line?.text ?? ''}</span>
+  </div>
+);
+
+/** Side-by-side preview of a change to one file, shown before it reaches the editor. */
+export const DiffPreviewDialog = ({ open, file, before, after, error, onAccept, onCancel }: DiffPreviewDialogProps) => {
+  const rows = useMemo(() => (after === null ? [] : diffLines(before, after)), [before, after]);
+  const changes = rows.filter((row) => row.type !== 'same').length;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onCancel()}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Apply to {file}?</DialogTitle>
+          <DialogDescription>
+            {error
+              ? "This suggestion can't be applied to the current code."
+              : changes === 0
+                ? 'This suggestion makes no changes to the file.'
+                : `${changes} changed ${changes === 1 ? 'line' : 'lines'}. Current code on the left, result on the right.`}
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <div className="flex items-start gap-2 rounded-md border border-destructive/30 bg-destructive/10 p-3 text-sm text-destructive">
+            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+            {error}
+          </div>
+        ) : (
+          <ScrollArea className="h-[60vh] rounded-md border border-code-border bg-code-bg">
+            <div className="grid grid-cols-2 font-mono text-xs leading-relaxed">
+              {rows.map((row, index) => (
+                <div key={index} className="contents">
+                  <Cell line={row.left} className={`border-r border-code-border ${sideClass(row, 'left')}`} />
+                  <Cell line={row.right} className={sideClass(row, 'right')} />
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={onAccept} disabled={Boolean(error) || changes === 0}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,147 @@
+import { useSyncExternalStore } from 'react';
+import { Link } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ArrowLeft, CheckCircle, Circle, EyeOff, Loader2, PanelLeftClose, PencilLine, XCircle } from 'lucide-react';
+import { Markdown } from '@/components/Markdown';
+import {
+  canGrade,
+  formatTestValue,
+  getCompletedExercises,
+  isExerciseComplete,
+  onProgressChange,
+  setExerciseComplete,
+  type Course,
+  type Exercise,
+  type GradeReport,
+  type Lesson,
+  type TestResult,
+} from '@/lib/curriculum';
+import { lessonPath } from '@/lib/routes';
+
+interface ExerciseViewProps {
+  course: Course;
+  lesson: Lesson;
+  exercise: Exercise;
+  /** The outcome of the last Submit, if any. */
+  report: GradeReport | null;
+  isGrading: boolean;
+  onHide: () => void;
+}
+
+const ResultRow = ({ result }: { result: TestResult }) => (
+  <div className="flex items-start gap-2 rounded-md border border-border p-2 text-sm">
+    {result.passed ? (
+      <CheckCircle className="w-4 h-4 mt-0.5 text-accent shrink-0" />
+    ) : (
+      <XCircle className="w-4 h-4 mt-0.5 text-destructive shrink-0" />
+    )}
+    <div className="flex-1 min-w-0 space-y-1">
+      <p>
+        {result.hidden ? 'Hidden test' : result.name}
+        {!result.required && <span className="text-xs text-muted-foreground"> · optional</span>}
+      </p>
+      {/* Hidden tests say whether they passed, not what they check. */}
+      {!result.passed && !result.hidden && (
+        <div className="font-mono text-xs text-muted-foreground break-all">
+          <p>Expected: {result.expected}</p>
+          {result.actual !== null && <p>Got: {result.actual}</p>}
+        </div>
+      )}
+      {!result.passed && result.error && <p className="text-xs text-destructive break-words">{result.error}</p>}
+    </div>
+  </div>
+);
+
+/** The task for an exercise, shown where the lesson text usually is, with the results of Submit. */
+export const ExerciseView = ({ course, lesson, exercise, report, isGrading, onHide }: ExerciseViewProps) => {
+  const completed = useSyncExternalStore(onProgressChange, getCompletedExercises);
+  const done = isExerciseComplete(exercise.id, completed);
+  const gradable = canGrade(course.id, exercise);
+  const examples = exercise.tests.filter((test) => !test.hidden);
+  const hiddenCount = exercise.tests.length - examples.length;
+
+  return (
+    <Card className="h-full bg-card border-border shadow-card flex flex-col">
+      <div className="p-4 border-b border-border flex items-start gap-2">
+        <PencilLine className="w-5 h-5 mt-0.5 text-primary shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-xs text-muted-foreground">Exercise · {lesson.title}</p>
+          <h3 className="font-semibold">{exercise.title}</h3>
+        </div>
+        {done && <CheckCircle className="w-5 h-5 mt-0.5 text-accent shrink-0" aria-label="Completed" />}
+        <Button variant="ghost" size="sm" onClick={onHide} title="Hide exercise">
+          <PanelLeftClose className="w-4 h-4" />
+        </Button>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-6">
+          <Markdown content={exercise.prompt} />
+
+          {examples.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Examples</h4>
+              {examples.map((test) => (
+                <div key={test.name} className="rounded-md border border-border p-2 text-sm space-y-1">
+                  <p>{test.name}</p>
+                  <p className="font-mono text-xs text-muted-foreground break-all">
+                    {test.expression} → {formatTestValue(course.id, test.expected)}
+                  </p>
+                </div>
+              ))}
+              {hiddenCount > 0 && (
+                <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                  <EyeOff className="w-3 h-3" />
+                  Submit also runs {hiddenCount} hidden test{hiddenCount === 1 ? '' : 's'}.
+                </p>
+              )}
+            </div>
+          )}
+
+          {isGrading && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Running the tests…
+            </p>
+          )}
+
+          {report && !isGrading && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium">{report.complete ? 'All required tests pass' : 'Not there yet'}</span>
+                <span>
+                  {report.passed}/{report.results.length} · {report.score}%
+                </span>
+              </div>
+              <Progress value={report.score} className="h-2" />
+              {report.results.map((result, index) => (
+                <ResultRow key={index} result={result} />
+              ))}
+            </div>
+          )}
+
+          {!gradable && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                This exercise isn't checked automatically. Mark it as done when you're happy with the result.
+              </p>
+              <Button variant={done ? 'outline' : 'default'} size="sm" className="w-full" onClick={() => setExerciseComplete(exercise.id, !done)}>
+                {done ? <CheckCircle className="w-4 h-4 mr-2" /> : <Circle className="w-4 h-4 mr-2" />}
+                {done ? 'Completed' : 'Mark exercise as done'}
+              </Button>
+            </div>
+          )}
+
+          <Button variant="outline" size="sm" className="w-full" asChild>
+            <Link to={lessonPath(course.id, lesson.id)}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to the lesson
+            </Link>
+          </Button>
+        </div>
+      </ScrollArea>
+    </Card>
+  );
+};
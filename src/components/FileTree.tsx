@@ -0,0 +1,227 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { FilePlus, FileCode, Folder, Pencil, Trash2, Play } from 'lucide-react';
+import { buildTree, type TreeNode } from '@/lib/project';
+
+interface FileTreeProps {
+  paths: string[];
+  entry: string;
+  activePath: string;
+  onSelect: (path: string) => void;
+  /** Return `false` (e.g. after showing an error) to keep the name input open. */
+  onCreate: (path: string) => boolean;
+  onRename: (from: string, to: string) => boolean;
+  onDelete: (path: string) => void;
+  onSetEntry: (path: string) => void;
+}
+
+type Editing = { mode: 'create'; folder: string } | { mode: 'rename'; path: string };
+
+const NameInput = ({
+  initialValue,
+  depth,
+  selectBaseName = false,
+  onCommit,
+  onCancel,
+}: {
+  initialValue: string;
+  depth: number;
+  /** Pre-select the name without its extension, as file managers do when renaming. */
+  selectBaseName?: boolean;
+  onCommit: (value: string) => void;
+  onCancel: () => void;
+}) => {
+  const [value, setValue] = useState(initialValue);
+  return (
+    <div style={{ paddingLeft: depth * 12 + 8 }} className="pr-2 py-0.5">
+      <Input
+        autoFocus
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onFocus={(e) => {
+          const { value: text } = e.target;
+          const dot = text.lastIndexOf('.');
+          if (selectBaseName) e.target.setSelectionRange(0, dot > 0 ? dot : text.length);
+          else e.target.setSelectionRange(text.length, text.length);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') onCommit(value);
+          if (e.key === 'Escape') onCancel();
+        }}
+        onBlur={() => (value.trim() ? onCommit(value) : onCancel())}
+        className="h-6 px-1 text-xs font-mono"
+      />
+    </div>
+  );
+};
+
+export const FileTree = ({
+  paths,
+  entry,
+  activePath,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onSetEntry,
+}: FileTreeProps) => {
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<string | null>(null);
+  const tree = buildTree(paths);
+
+  const commitCreate = (path: string) => {
+    if (onCreate(path)) setEditing(null);
+  };
+
+  const commitRename = (path: string, name: string) => {
+    const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/') + 1) : '';
+    if (onRename(path, `${folder}${name}`)) setEditing(null);
+  };
+
+  const renderNode = (node: TreeNode, depth: number) => {
+    if (node.children) {
+      return (
+        <div key={node.path}>
+          <div style={{ paddingLeft: depth * 12 + 8 }} className="flex items-center gap-1 py-1 text-xs text-muted-foreground">
+            <Folder className="w-3 h-3" />
+            <span className="truncate">{node.name}</span>
+          </div>
+          {node.children.map((child) => renderNode(child, depth + 1))}
+        </div>
+      );
+    }
+
+    if (editing?.mode === 'rename' && editing.path === node.path) {
+      return (
+        <NameInput
+          key={node.path}
+          initialValue={node.name}
+          depth={depth}
+          selectBaseName
+          onCommit={(name) => commitRename(node.path, name)}
+          onCancel={() => setEditing(null)}
+        />
+      );
+    }
+
+    return (
+      <ContextMenu key={node.path}>
+        <ContextMenuTrigger asChild>
+          <div
+            style={{ paddingLeft: depth * 12 + 8 }}
+            className={`group flex items-center gap-1 pr-1 py-1 text-xs cursor-pointer rounded-sm ${
+              node.path === activePath ? 'bg-primary/15 text-foreground' : 'text-muted-foreground hover:bg-muted/50'
+            }`}
+            onClick={() => onSelect(node.path)}
+          >
+            <FileCode className="w-3 h-3 shrink-0" />
+            <span className="flex-1 truncate font-mono">{node.name}</span>
+            {node.path === entry && <Play className="w-3 h-3 shrink-0 text-accent" aria-label="Entry file" />}
+            <button
+              className="hidden group-hover:block p-0.5 hover:text-foreground"
+              onClick={(e) => {
+                e.stopPropagation();
+                setEditing({ mode: 'rename', path: node.path });
+              }}
+              title="Rename"
+            >
+              <Pencil className="w-3 h-3" />
+            </button>
+            <button
+              className="hidden group-hover:block p-0.5 hover:text-destructive"
+              onClick={(e) => {
+                e.stopPropagation();
+                setPendingDelete(node.path);
+              }}
+              title="Delete"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        </ContextMenuTrigger>
+        <ContextMenuContent>
+          <ContextMenuItem disabled={node.path === entry} onSelect={() => onSetEntry(node.path)}>
+            <Play className="w-4 h-4 mr-2" />
+            Run this file
+          </ContextMenuItem>
+          <ContextMenuItem onSelect={() => setEditing({ mode: 'create', folder: node.path.slice(0, Math.max(0, node.path.lastIndexOf('/'))) })}>
+            <FilePlus className="w-4 h-4 mr-2" />
+            New file here
+          </ContextMenuItem>
+          <ContextMenuSeparator />
+          <ContextMenuItem onSelect={() => setEditing({ mode: 'rename', path: node.path })}>
+            <Pencil className="w-4 h-4 mr-2" />
+            Rename
+          </ContextMenuItem>
+          <ContextMenuItem className="text-destructive" onSelect={() => setPendingDelete(node.path)}>
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between pl-3 pr-1 py-1 border-b border-code-border">
+        <span className="text-xs uppercase tracking-wide text-muted-foreground">Files</span>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setEditing({ mode: 'create', folder: '' })} title="New file">
+          <FilePlus className="w-3 h-3" />
+        </Button>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="py-1">
+          {tree.map((node) => renderNode(node, 0))}
+          {editing?.mode === 'create' && (
+            <NameInput
+              initialValue={editing.folder ? `${editing.folder}/` : ''}
+              depth={0}
+              onCommit={commitCreate}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+        </div>
+      </ScrollArea>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete}?</AlertDialogTitle>
+            <AlertDialogDescription>The file and its contents will be removed from this project.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) onDelete(pendingDelete);
+                setPendingDelete(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { AISettingsDialog } from '@/components/AISettingsDialog';
 import { Brain, Zap, Trophy, Settings } from 'lucide-react';
 
 export const Header = () => {
@@ -32,9 +33,11 @@ export const Header = () => {
                 Level 12
               </Badge>
             </div>
-            <Button variant="ghost" size="sm">
-              <Settings className="w-4 h-4" />
-            </Button>
+            <AISettingsDialog>
+              <Button variant="ghost" size="sm" title="AI assistant settings">
+                <Settings className="w-4 h-4" />
+              </Button>
+            </AISettingsDialog>
           </div>
         </div>
       </div>
@@ -0,0 +1,326 @@
+import { useMemo, useState, useSyncExternalStore } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowDown, ArrowUp, CheckCircle, Eye, HelpCircle, RotateCcw, XCircle } from 'lucide-react';
+import { CodeBlock, Markdown } from '@/components/Markdown';
+import {
+  QUIZ_PASS_SCORE,
+  bestQuizScore,
+  getQuizAnswersSeen,
+  getQuizScores,
+  hasSeenQuizAnswers,
+  initialResponses,
+  isAnswered,
+  isCorrect,
+  onProgressChange,
+  recordQuizScore,
+  scoreQuiz,
+  setLessonComplete,
+  setQuizAnswersSeen,
+  type ChoiceOption,
+  type Course,
+  type Lesson,
+  type QuizQuestion,
+  type QuizResponse,
+} from '@/lib/curriculum';
+
+interface QuestionProps {
+  /** Prefix for element ids, unique on the page. */
+  id: string;
+  question: QuizQuestion;
+  response: QuizResponse | undefined;
+  /** Locks the answer while it is being checked. */
+  checked: boolean;
+  /** Shows the right answer and explanations. */
+  revealed: boolean;
+  onChange: (response: QuizResponse) => void;
+}
+
+// Colours an option once the answers are shown: the right ones green, a wrong pick red.
+const optionTone = (revealed: boolean, right: boolean, picked: boolean) =>
+  !revealed ? '' : right ? 'border-accent/50 bg-accent/10' : picked ? 'border-destructive/50 bg-destructive/10' : '';
+
+const OptionExplanation = ({ option, show }: { option: ChoiceOption; show: boolean }) =>
+  show && option.explanation ? <p className="mt-1 text-xs text-muted-foreground">{option.explanation}</p> : null;
+
+const SingleChoice = ({ id, question, response, checked, revealed, onChange }: QuestionProps) => {
+  if (question.kind !== 'single') return null;
+  return (
+    <RadioGroup value={response === undefined ? '' : String(response)} onValueChange={(value) => onChange(Number(value))} disabled={checked}>
+      {question.options.map((option, index) => {
+        const right = index === question.answer;
+        const picked = index === response;
+        return (
+          <div key={index} className={`rounded-md border border-border p-2 ${optionTone(revealed, right, picked)}`}>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value={String(index)} id={`${id}-${index}`} />
+              <Label htmlFor={`${id}-${index}`} className="font-normal">
+                {option.text}
+              </Label>
+            </div>
+            <OptionExplanation option={option} show={revealed && (right || picked)} />
+          </div>
+        );
+      })}
+    </RadioGroup>
+  );
+};
+
+const MultipleChoice = ({ id, question, response, checked, revealed, onChange }: QuestionProps) => {
+  if (question.kind !== 'multiple') return null;
+  const chosen = (response as number[] | undefined) ?? [];
+  const toggle = (index: number, on: boolean) =>
+    onChange(on ? [...chosen, index].sort((a, b) => a - b) : chosen.filter((existing) => existing !== index));
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">Pick every answer that applies.</p>
+      {question.options.map((option, index) => {
+        const right = question.answers.includes(index);
+        const picked = chosen.includes(index);
+        return (
+          <div key={index} className={`rounded-md border border-border p-2 ${optionTone(revealed, right, picked)}`}>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`${id}-${index}`}
+                checked={picked}
+                onCheckedChange={(value) => toggle(index, value === true)}
+                disabled={checked}
+              />
+              <Label htmlFor={`${id}-${index}`} className="font-normal">
+                {option.text}
+              </Label>
+            </div>
+            <OptionExplanation option={option} show={revealed && (right || picked)} />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const FillIn = ({ id, question, response, checked, revealed, onChange }: QuestionProps) => {
+  if (question.kind !== 'blank') return null;
+  return (
+    <div className="space-y-2">
+      <Input
+        id={id}
+        value={(response as string | undefined) ?? ''}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={checked}
+        placeholder="Your answer"
+        autoComplete="off"
+        spellCheck={false}
+      />
+      {revealed && !isCorrect(question, response) && (
+        <p className="text-xs text-muted-foreground">
+          Answer: <code className="font-mono">{question.answers[0]}</code>
+        </p>
+      )}
+    </div>
+  );
+};
+
+const Ordering = ({ question, response, checked, revealed, onChange }: QuestionProps) => {
+  if (question.kind !== 'order') return null;
+  const order = response as number[];
+  const move = (position: number, offset: number) => {
+    const next = [...order];
+    [next[position], next[position + offset]] = [next[position + offset], next[position]];
+    onChange(next);
+  };
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">Put these in the right order.</p>
+      <ol className="space-y-1">
+        {order.map((item, position) => (
+          <li
+            key={item}
+            className={`flex items-center gap-2 rounded-md border border-border p-2 text-sm ${optionTone(revealed, item === position, item !== position)}`}
+          >
+            <span className="w-4 text-xs text-muted-foreground">{position + 1}.</span>
+            <span className="flex-1">{question.items[item]}</span>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={checked || position === 0} onClick={() => move(position, -1)} title="Move up">
+              <ArrowUp className="w-3 h-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              disabled={checked || position === order.length - 1}
+              onClick={() => move(position, 1)}
+              title="Move down"
+            >
+              <ArrowDown className="w-3 h-3" />
+            </Button>
+          </li>
+        ))}
+      </ol>
+      {revealed && !isCorrect(question, response) && (
+        <p className="text-xs text-muted-foreground">Right order: {question.items.join(' → ')}</p>
+      )}
+    </div>
+  );
+};
+
+const PredictOutput = ({ id, question, response, checked, revealed, onChange }: QuestionProps) => {
+  if (question.kind !== 'output') return null;
+  return (
+    <div className="space-y-2">
+      <CodeBlock code={question.code} language={question.language} />
+      <Label htmlFor={id} className="text-xs text-muted-foreground">
+        Your answer
+      </Label>
+      <Textarea
+        id={id}
+        value={(response as string | undefined) ?? ''}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={checked}
+        rows={Math.max(2, question.output.split('\n').length)}
+        className="font-mono text-xs"
+        spellCheck={false}
+      />
+      {revealed && !isCorrect(question, response) && (
+        <div className="text-xs text-muted-foreground">
+          <p>It prints:</p>
+          <pre className="mt-1 rounded-md bg-code-bg p-2 font-mono">{question.output}</pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const answerInputs = {
+  single: SingleChoice,
+  multiple: MultipleChoice,
+  blank: FillIn,
+  order: Ordering,
+  output: PredictOutput,
+};
+
+interface LessonQuizProps {
+  course: Course;
+  lesson: Lesson;
+}
+
+/**
+ * Quick comprehension checks at the end of a lesson; passing one marks the lesson as done. Checking
+ * only gives the score; which answers were wrong shows with the answers, and once the learner has
+ * seen those, later tries don't count.
+ */
+export const LessonQuiz = ({ course, lesson }: LessonQuizProps) => {
+  const questions = lesson.quiz;
+  const [responses, setResponses] = useState(() => initialResponses(questions));
+  const [checked, setChecked] = useState(false);
+  const [revealed, setRevealed] = useState(false);
+  // Whether the checked try was recorded, i.e. made before the answers were shown.
+  const [scored, setScored] = useState(false);
+  const scores = useSyncExternalStore(onProgressChange, getQuizScores);
+  const seen = useSyncExternalStore(onProgressChange, getQuizAnswersSeen);
+  const answersSeen = hasSeenQuizAnswers(course.id, lesson.id, seen);
+  const best = bestQuizScore(course.id, lesson.id, scores);
+  const result = useMemo(() => scoreQuiz(questions, responses), [questions, responses]);
+  const allAnswered = questions.every((question) => isAnswered(question, responses[question.id]));
+
+  const handleCheck = () => {
+    setChecked(true);
+    setScored(!answersSeen);
+    if (answersSeen) return;
+    recordQuizScore(course.id, lesson.id, result.score);
+    if (result.passed) setLessonComplete(course.id, lesson.id, true);
+  };
+
+  const handleShowAnswers = () => {
+    setRevealed(true);
+    setQuizAnswersSeen(course.id, lesson.id);
+  };
+
+  // Every answer stays for another go; the learner works out which ones to change.
+  const handleRetry = () => {
+    setChecked(false);
+    setRevealed(false);
+  };
+
+  const handleStartOver = () => {
+    setResponses(initialResponses(questions));
+    setChecked(false);
+    setRevealed(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <HelpCircle className="w-4 h-4 text-primary" />
+        <h4 className="flex-1 text-xs font-medium uppercase tracking-wide text-muted-foreground">Check your understanding</h4>
+        {best !== null && <span className="text-xs text-muted-foreground">Best: {best}%</span>}
+      </div>
+
+      {questions.map((question, index) => {
+        const AnswerInput = answerInputs[question.kind];
+        const right = isCorrect(question, responses[question.id]);
+        return (
+          <div key={question.id} className="space-y-2 rounded-md border border-border p-3">
+            <div className="flex items-start gap-2">
+              <span className="text-xs font-medium text-muted-foreground mt-0.5">{index + 1}.</span>
+              <Markdown content={question.prompt} className="flex-1 min-w-0 text-sm" />
+              {revealed &&
+                (right ? <CheckCircle className="w-4 h-4 text-accent shrink-0" /> : <XCircle className="w-4 h-4 text-destructive shrink-0" />)}
+            </div>
+            <AnswerInput
+              id={`quiz-${course.id}-${lesson.id}-${question.id}`}
+              question={question}
+              response={responses[question.id]}
+              checked={checked}
+              revealed={revealed}
+              onChange={(response) => setResponses((current) => ({ ...current, [question.id]: response }))}
+            />
+            {revealed && question.explanation && <p className="text-xs text-muted-foreground">{question.explanation}</p>}
+          </div>
+        );
+      })}
+
+      {checked ? (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="font-medium">
+              {!scored
+                ? "Practice only: the answers were shown, so this try doesn't count"
+                : result.passed
+                  ? 'Passed, lesson marked as done'
+                  : `${QUIZ_PASS_SCORE}% passes, have another go`}
+            </span>
+            <span>
+              {result.correct}/{result.total} · {result.score}%
+            </span>
+          </div>
+          <Progress value={result.score} className="h-2" />
+          <div className="flex gap-2">
+            {result.correct < result.total && (
+              <Button size="sm" className="flex-1" onClick={handleRetry}>
+                Try again
+              </Button>
+            )}
+            <Button variant="outline" size="sm" className="flex-1" onClick={handleStartOver}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Start over
+            </Button>
+          </div>
+          {!revealed && (
+            <Button variant="ghost" size="sm" className="w-full" onClick={handleShowAnswers}>
+              <Eye className="w-4 h-4 mr-2" />
+              {scored && !result.passed ? "Show answers (later tries won't count)" : 'Show answers'}
+            </Button>
+          )}
+        </div>
+      ) : (
+        <Button size="sm" className="w-full" onClick={handleCheck} disabled={!allAnswered}>
+          Check answers
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,267 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import type { Components } from 'react-markdown';
+import { Link } from 'react-router-dom';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import {
+  AlertCircle,
+  AlertTriangle,
+  BookOpen,
+  CheckCircle,
+  FileInput,
+  Info,
+  Lightbulb,
+  Loader2,
+  PanelLeftClose,
+  PencilLine,
+  Play,
+  Square,
+  XCircle,
+} from 'lucide-react';
+import { Markdown, CodeBlock } from '@/components/Markdown';
+import { ConsoleLine } from '@/components/OutputConsole';
+import { LessonQuiz } from '@/components/LessonQuiz';
+import { useCodeRunner } from '@/hooks/use-code-runner';
+import { defaultFileName } from '@/lib/editor/files';
+import { canRun } from '@/lib/sandbox';
+import {
+  calloutKindOf,
+  getCompletedExercises,
+  getCompletedLessons,
+  glossaryTerm,
+  isExerciseComplete,
+  isLessonComplete,
+  lessonUrlTransform,
+  onProgressChange,
+  publicAsset,
+  remarkCallouts,
+  setLessonComplete,
+  snippetTopic,
+  type CalloutKind,
+  type Course,
+  type Lesson,
+} from '@/lib/curriculum';
+import { exercisePath } from '@/lib/routes';
+
+const calloutStyles: Record<CalloutKind, { label: string; icon: React.ReactNode; className: string }> = {
+  note: { label: 'Note', icon: <Info className="w-4 h-4" />, className: 'border-primary/50 bg-primary/10 text-primary' },
+  tip: { label: 'Tip', icon: <Lightbulb className="w-4 h-4" />, className: 'border-accent/50 bg-accent/10 text-accent' },
+  important: {
+    label: 'Important',
+    icon: <AlertCircle className="w-4 h-4" />,
+    className: 'border-purple-500/50 bg-purple-500/10 text-purple-300',
+  },
+  warning: {
+    label: 'Warning',
+    icon: <AlertTriangle className="w-4 h-4" />,
+    className: 'border-yellow-500/50 bg-yellow-500/10 text-yellow-300',
+  },
+  caution: { label: 'Caution', icon: <XCircle className="w-4 h-4" />, className: 'border-destructive/50 bg-destructive/10 text-destructive' },
+};
+
+const remarkPlugins = [remarkCallouts];
+
+interface SnippetProps {
+  code: string;
+  language: string;
+  /** The snippet's topic when it can be opened in this lesson's editor. */
+  editorTopic: string | null;
+  onOpenInEditor: (code: string) => void;
+}
+
+// A code sample from the lesson that can be run right here, or copied into the editor.
+const LessonSnippet = ({ code, language, editorTopic, onOpenInEditor }: SnippetProps) => {
+  // Snippets are examples to try, so they mustn't change the learner's own database.
+  const runner = useCodeRunner({}, { isolated: true });
+  const topic = snippetTopic(language);
+  const runnable = topic !== null && canRun(topic);
+
+  const handleRun = () => {
+    if (runner.isRunning) {
+      runner.stop();
+      return;
+    }
+    const entry = defaultFileName(topic);
+    runner.run(topic, { files: { [entry]: code }, entry });
+  };
+
+  const hasOutput = runner.entries.length > 0 || runner.isRunning;
+
+  return (
+    <CodeBlock
+      code={code}
+      language={language}
+      actions={
+        <>
+          {topic !== null && topic === editorTopic && (
+            <button className="flex items-center gap-1 hover:text-foreground" onClick={() => onOpenInEditor(code)} title="Open in editor">
+              <FileInput className="w-3 h-3" />
+              Open in editor
+            </button>
+          )}
+          {runnable && (
+            <button className="flex items-center gap-1 hover:text-foreground" onClick={handleRun} title={runner.isRunning ? 'Stop' : 'Run here'}>
+              {runner.isRunning ? <Square className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+              {runner.isRunning ? 'Stop' : 'Run'}
+            </button>
+          )}
+        </>
+      }
+      footer={
+        hasOutput && (
+          <div className="border-t border-code-border p-1 font-mono text-xs">
+            {runner.entries.map((entry) => (
+              <ConsoleLine key={entry.id} entry={entry} />
+            ))}
+            {runner.phase === 'loading' && (
+              <div className="flex items-center gap-2 px-2 py-1 text-muted-foreground">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                <span>Loading the runtime…</span>
+              </div>
+            )}
+            {!runner.isRunning && (
+              <button className="px-2 py-1 text-muted-foreground hover:text-foreground" onClick={runner.clear}>
+                Clear output
+              </button>
+            )}
+          </div>
+        )
+      }
+    />
+  );
+};
+
+interface LessonViewProps {
+  course: Course;
+  lesson: Lesson;
+  /** Replaces the editor's file with a snippet from the lesson, after the learner confirms. */
+  onOpenInEditor: (code: string) => void;
+  onHide: () => void;
+}
+
+/** The lesson text, read before coding: callouts, diagrams, glossary terms and live snippets. */
+export const LessonView = ({ course, lesson, onOpenInEditor, onHide }: LessonViewProps) => {
+  const completed = useSyncExternalStore(onProgressChange, getCompletedLessons);
+  const completedExercises = useSyncExternalStore(onProgressChange, getCompletedExercises);
+  const done = isLessonComplete(course.id, lesson.id, completed);
+  const module = course.modules.find((candidate) => candidate.lessons.includes(lesson));
+
+  const components = useMemo<Components>(
+    () => ({
+      h1: ({ children }) => <h2 className="mt-5 mb-2 text-lg font-semibold first:mt-0">{children}</h2>,
+      h2: ({ children }) => <h3 className="mt-5 mb-2 text-base font-semibold">{children}</h3>,
+      h3: ({ children }) => <h4 className="mt-4 mb-1 font-semibold">{children}</h4>,
+      p: ({ children }) => <p className="my-3 leading-relaxed first:mt-0 last:mb-0">{children}</p>,
+      aside: ({ className, children }) => {
+        const style = calloutStyles[calloutKindOf(className) ?? 'note'];
+        return (
+          <aside className={`my-3 rounded-md border-l-4 px-3 py-2 ${style.className}`}>
+            <p className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide">
+              {style.icon}
+              {style.label}
+            </p>
+            <div className="text-foreground">{children}</div>
+          </aside>
+        );
+      },
+      a: ({ href, children }) => {
+        const term = glossaryTerm(href);
+        if (term === null) {
+          return (
+            <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+              {children}
+            </a>
+          );
+        }
+        const definition = course.glossary[term];
+        if (!definition) return <>{children}</>;
+        return (
+          <HoverCard openDelay={150}>
+            <HoverCardTrigger asChild>
+              <button type="button" className="underline decoration-dotted underline-offset-4 cursor-help" title={definition}>
+                {children}
+              </button>
+            </HoverCardTrigger>
+            <HoverCardContent className="w-72 text-sm">
+              <p className="font-semibold mb-1">{term}</p>
+              <p className="text-muted-foreground">{definition}</p>
+            </HoverCardContent>
+          </HoverCard>
+        );
+      },
+      img: ({ src, alt }) => (
+        <img src={publicAsset(src)} alt={alt ?? ''} loading="lazy" className="my-3 max-w-full rounded-md border border-border bg-white" />
+      ),
+    }),
+    [course],
+  );
+
+  const renderCode = useCallback(
+    (code: string, language: string) => (
+      <LessonSnippet code={code} language={language} editorTopic={course.id} onOpenInEditor={onOpenInEditor} />
+    ),
+    [course.id, onOpenInEditor],
+  );
+
+  return (
+    <Card className="h-full bg-card border-border shadow-card flex flex-col">
+      <div className="p-4 border-b border-border flex items-start gap-2">
+        <BookOpen className="w-5 h-5 mt-0.5 text-primary shrink-0" />
+        <div className="flex-1 min-w-0">
+          {module && <p className="text-xs text-muted-foreground">{module.title}</p>}
+          <h3 className="font-semibold">{lesson.title}</h3>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onHide} title="Hide lesson">
+          <PanelLeftClose className="w-4 h-4" />
+        </Button>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-4">
+          {lesson.content ? (
+            <Markdown
+              content={lesson.content}
+              components={components}
+              remarkPlugins={remarkPlugins}
+              urlTransform={lessonUrlTransform}
+              renderCode={renderCode}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground">{lesson.summary}</p>
+          )}
+          {lesson.exercises.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Practice</h4>
+              {lesson.exercises.map((exercise) => (
+                <Link
+                  key={exercise.id}
+                  to={exercisePath(exercise.id)}
+                  className="flex items-center gap-2 rounded-md border border-border p-2 text-sm hover:bg-muted/50 transition-colors"
+                >
+                  <PencilLine className="w-4 h-4 text-primary shrink-0" />
+                  <span className="flex-1">{exercise.title}</span>
+                  {isExerciseComplete(exercise.id, completedExercises) && <CheckCircle className="w-4 h-4 text-accent shrink-0" />}
+                </Link>
+              ))}
+            </div>
+          )}
+          {lesson.quiz.length > 0 && (
+            <div className="mt-6">
+              <LessonQuiz key={`${course.id}/${lesson.id}`} course={course} lesson={lesson} />
+            </div>
+          )}
+          <Button
+            variant={done ? 'outline' : 'default'}
+            size="sm"
+            className="mt-6 w-full"
+            onClick={() => setLessonComplete(course.id, lesson.id, !done)}
+          >
+            <CheckCircle className="w-4 h-4 mr-2" />
+            {done ? 'Completed' : 'Mark lesson as done'}
+          </Button>
+        </div>
+      </ScrollArea>
+    </Card>
+  );
+};
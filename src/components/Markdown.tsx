@@ -0,0 +1,162 @@
+import { useMemo, useState } from 'react';
+import ReactMarkdown, { type Components, type Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Check, Copy, FileInput, ChevronDown } from 'lucide-react';
+import { highlight } from '@/lib/editor/highlight';
+import { isUnifiedDiff, type ApplyMode } from '@/lib/editor/suggestions';
+
+export type ApplyCodeHandler = (code: string, mode: ApplyMode) => void;
+
+interface CodeBlockProps {
+  code: string;
+  language: string;
+  onApply?: ApplyCodeHandler;
+  /** Extra buttons for the header, before Copy. */
+  actions?: React.ReactNode;
+  /** Shown under the code, e.g. the output of running it. */
+  footer?: React.ReactNode;
+}
+
+export const CodeBlock = ({ code, language, onApply, actions, footer }: CodeBlockProps) => {
+  const [copied, setCopied] = useState(false);
+  const lines = useMemo(() => highlight(code, language), [code, language]);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="my-2 overflow-hidden rounded-md border border-code-border bg-code-bg">
+      <div className="flex items-center justify-between border-b border-code-border px-3 py-1 text-xs text-muted-foreground">
+        <span className="font-mono">{language || 'text'}</span>
+        <div className="flex items-center gap-3">
+          {actions}
+          {onApply && (
+            <DropdownMenu>
+              <DropdownMenuTrigger className="flex items-center gap-1 hover:text-foreground">
+                <FileInput className="w-3 h-3" />
+                Apply
+                <ChevronDown className="w-3 h-3" />
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => onApply(code, 'insert')}>Insert at cursor</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => onApply(code, 'replace')}>Replace selection</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => onApply(code, 'patch')}>
+                  {isUnifiedDiff(code) ? 'Apply as patch' : 'Apply as patch (replace file)'}
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          <button className="flex items-center gap-1 hover:text-foreground" onClick={handleCopy} title="Copy code">
+            {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+        </div>
+      </div>
+      <pre className="overflow-x-auto p-3 font-mono text-xs leading-relaxed text-foreground">
+        <code>
+          {lines.map((spans, index) => (
+            <div key={index}>
+              {spans.map((span, i) => (
+                <span key={i} style={span.style}>
+                  {span.text}
+                </span>
+              ))}
+              {spans.length === 0 && '\n'}
+            </div>
+          ))}
+        </code>
+      </pre>
+      {footer}
+    </div>
+  );
+};
+
+const components: Components = {
+  // Fenced blocks are rendered whole by `code`, so `pre` only needs to step aside.
+  pre: ({ children }) => <>{children}</>,
+  p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0">{children}</p>,
+  h1: ({ children }) => <h3 className="mt-3 mb-1 text-base font-semibold">{children}</h3>,
+  h2: ({ children }) => <h4 className="mt-3 mb-1 font-semibold">{children}</h4>,
+  h3: ({ children }) => <h5 className="mt-2 mb-1 font-semibold">{children}</h5>,
+  ul: ({ children }) => <ul className="my-2 list-disc space-y-1 pl-5">{children}</ul>,
+  ol: ({ children }) => <ol className="my-2 list-decimal space-y-1 pl-5">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="my-2 border-l-2 border-primary/50 pl-3 text-muted-foreground">{children}</blockquote>
+  ),
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-primary underline underline-offset-2">
+      {children}
+    </a>
+  ),
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto rounded-md border border-border">
+      <table className="w-full text-xs">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => <th className="bg-muted/50 px-2 py-1 text-left font-medium">{children}</th>,
+  td: ({ children }) => <td className="border-t border-border px-2 py-1">{children}</td>,
+  hr: () => <hr className="my-3 border-border" />,
+};
+
+interface MarkdownProps {
+  content: string;
+  /** Adds an Apply menu to code blocks. */
+  onApplyCode?: ApplyCodeHandler;
+  /** Renders fenced code blocks instead of the default `CodeBlock`. */
+  renderCode?: (code: string, language: string) => React.ReactNode;
+  /** Element overrides on top of the chat styling; keep the object stable between renders. */
+  components?: Components;
+  remarkPlugins?: Options['remarkPlugins'];
+  urlTransform?: Options['urlTransform'];
+  className?: string;
+}
+
+/**
+ * Renders assistant replies, and lesson content with a few extensions. Raw HTML in the text is
+ * dropped rather than rendered, and react-markdown's default URL filter strips `javascript:`
+ * and similar links.
+ */
+export const Markdown = ({
+  content,
+  onApplyCode,
+  renderCode,
+  components: overrides,
+  remarkPlugins = [],
+  urlTransform,
+  className = 'text-sm',
+}: MarkdownProps) => {
+  const withCode = useMemo<Components>(
+    () => ({
+      ...components,
+      ...overrides,
+      code: ({ className, children }) => {
+        const text = String(children);
+        const language = /language-([\w-]+)/.exec(className ?? '')?.[1];
+        // Inline code has neither a language class nor a line break.
+        if (!language && !text.includes('\n')) {
+          return <code className="rounded bg-background/60 px-1 py-0.5 font-mono text-[0.85em]">{children}</code>;
+        }
+        const code = text.replace(/\n$/, '');
+        return renderCode ? renderCode(code, language ?? '') : <CodeBlock code={code} language={language ?? ''} onApply={onApplyCode} />;
+      },
+    }),
+    [onApplyCode, renderCode, overrides],
+  );
+
+  return (
+    <div className={`${className} break-words`}>
+      <ReactMarkdown remarkPlugins={[remarkGfm, ...remarkPlugins]} components={withCode} urlTransform={urlTransform} skipHtml>
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import { useEffect, useRef } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Terminal, Trash2, Square, ChevronRight, AlertTriangle, XCircle, Info, Loader2 } from 'lucide-react';
+import type { ConsoleEntry, ResultTable, RunPhase } from '@/lib/sandbox';
+
+interface OutputConsoleProps {
+  entries: ConsoleEntry[];
+  phase?: RunPhase | null;
+  onClear?: () => void;
+  onStop?: () => void;
+}
+
+const entryStyles: Record<ConsoleEntry['level'], string> = {
+  log: 'text-foreground',
+  info: 'text-primary',
+  warn: 'text-yellow-300 bg-yellow-500/10',
+  error: 'text-destructive bg-destructive/10',
+  result: 'text-muted-foreground',
+  system: 'text-muted-foreground italic',
+};
+
+const EntryIcon = ({ level }: { level: ConsoleEntry['level'] }) => {
+  switch (level) {
+    case 'warn':
+      return <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />;
+    case 'error':
+      return <XCircle className="w-3 h-3 mt-0.5 shrink-0" />;
+    case 'info':
+      return <Info className="w-3 h-3 mt-0.5 shrink-0" />;
+    case 'result':
+      return <ChevronRight className="w-3 h-3 mt-0.5 shrink-0" />;
+    default:
+      return <span className="w-3 shrink-0" />;
+  }
+};
+
+const ResultGrid = ({ table }: { table: ResultTable }) => (
+  <div className="mt-1 mb-2 rounded border border-code-border">
+    <Table className="text-xs">
+      <TableHeader>
+        <TableRow className="border-code-border">
+          {table.columns.map((column, index) => (
+            <TableHead key={index} className="h-8 px-2 font-mono">{column}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {table.rows.map((row, rowIndex) => (
+          <TableRow key={rowIndex} className="border-code-border">
+            {row.map((cell, cellIndex) => (
+              <TableCell key={cellIndex} className="px-2 py-1 font-mono whitespace-nowrap">
+                {cell === null ? <span className="text-muted-foreground italic">NULL</span> : String(cell)}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+    {table.omitted > 0 && (
+      <p className="px-2 py-1 text-muted-foreground">… {table.omitted} more rows not shown</p>
+    )}
+  </div>
+);
+
+/** One console entry, shared with the inline output of lesson snippets. */
+export const ConsoleLine = ({ entry }: { entry: ConsoleEntry }) => (
+  <div>
+    <div className={`flex items-start gap-2 px-2 py-1 rounded whitespace-pre-wrap break-words ${entryStyles[entry.level]}`}>
+      <EntryIcon level={entry.level} />
+      <span className="flex-1">{entry.text}</span>
+      {entry.line !== undefined && (
+        <span className="shrink-0 text-muted-foreground">
+          {entry.file ? `${entry.file}:${entry.line}` : `line ${entry.line}`}
+        </span>
+      )}
+    </div>
+    {entry.table && entry.table.columns.length > 0 && <ResultGrid table={entry.table} />}
+  </div>
+);
+
+export const OutputConsole = ({ entries, phase = null, onClear, onStop }: OutputConsoleProps) => {
+  const isRunning = phase !== null;
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [entries, phase]);
+
+  return (
+    <Card className="h-full bg-code-bg border-code-border shadow-card flex flex-col">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-code-border">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Terminal className="w-4 h-4" />
+          <span>Output</span>
+          {isRunning && (
+            <span className="text-xs text-primary animate-pulse">{phase === 'loading' ? 'loading runtime…' : 'running…'}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {isRunning && (
+            <Button variant="ghost" size="sm" onClick={onStop} title="Stop">
+              <Square className="w-4 h-4" />
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClear} title="Clear output">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-2 font-mono text-xs">
+          {entries.length === 0 && !isRunning && (
+            <p className="px-2 py-1 text-muted-foreground">Press Run to see your program's output here.</p>
+          )}
+          {entries.map((entry) => (
+            <ConsoleLine key={entry.id} entry={entry} />
+          ))}
+          {phase === 'loading' && (
+            <div className="flex items-center gap-2 px-2 py-1 text-muted-foreground">
+              <Loader2 className="w-3 h-3 animate-spin" />
+              <span>Loading the runtime. This only happens on the first run…</span>
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+      </ScrollArea>
+    </Card>
+  );
+};
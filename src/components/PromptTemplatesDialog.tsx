@@ -0,0 +1,144 @@
+import { useState, useSyncExternalStore } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  builtInCommands,
+  deleteTemplate,
+  listTemplates,
+  onTemplatesChange,
+  saveTemplate,
+  TEMPLATE_VARIABLES,
+  type PromptTemplate,
+} from '@/lib/ai';
+
+interface PromptTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyTemplate = (): PromptTemplate => ({ id: `${Date.now()}`, name: '', description: '', body: '' });
+
+export const PromptTemplatesDialog = ({ open, onOpenChange }: PromptTemplatesDialogProps) => {
+  const templates = useSyncExternalStore(onTemplatesChange, listTemplates);
+  const [editing, setEditing] = useState<PromptTemplate | null>(null);
+  const { toast } = useToast();
+
+  const handleSave = () => {
+    try {
+      const saved = saveTemplate(editing, builtInCommands.map((command) => command.name));
+      setEditing(null);
+      toast({
+        title: "Template saved",
+        description: `Type /${saved.name} in the chat to use it`,
+        duration: 2000,
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't save template",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setEditing(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Prompt templates</DialogTitle>
+          <DialogDescription>
+            Reusable prompts you can run as slash commands. Placeholders:{' '}
+            {TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(', ')}.
+          </DialogDescription>
+        </DialogHeader>
+        {editing ? (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Command</Label>
+              <Input
+                id="template-name"
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                placeholder="big-o"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Description</Label>
+              <Input
+                id="template-description"
+                value={editing.description}
+                onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                placeholder="Time and space complexity"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-body">Prompt</Label>
+              <Textarea
+                id="template-body"
+                rows={6}
+                value={editing.body}
+                onChange={(e) => setEditing({ ...editing, body: e.target.value })}
+                placeholder={'What is the Big-O complexity of this {{language}} code?\n\n{{selection}}'}
+                className="font-mono text-xs"
+              />
+            </div>
+          </div>
+        ) : (
+          <ScrollArea className="max-h-72">
+            {templates.length === 0 && <p className="text-sm text-muted-foreground">No templates yet.</p>}
+            <div className="space-y-1">
+              {templates.map((template) => (
+                <div key={template.id} className="group flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-muted/50">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-mono">/{template.name}</p>
+                    {template.description && <p className="text-xs text-muted-foreground truncate">{template.description}</p>}
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setEditing(template)} title="Edit">
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => deleteTemplate(template.id)} title="Delete">
+                    <Trash2 className="w-3 h-3 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+        <DialogFooter>
+          {editing ? (
+            <>
+              <Button variant="outline" onClick={() => setEditing(null)}>
+                Back
+              </Button>
+              <Button onClick={handleSave}>Save</Button>
+            </>
+          ) : (
+            <Button onClick={() => setEditing(emptyTemplate())}>
+              <Plus className="w-4 h-4 mr-1" />
+              New template
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,185 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Eye, RefreshCw, AlertCircle } from 'lucide-react';
+import { createPreviewDocument, isPreviewMessage } from '@/lib/preview/document';
+import { transpileProject } from '@/lib/preview/transpile';
+import type { Project, SourceLocation } from '@/lib/project';
+import { DEFAULT_RUN_LIMITS, type ConsoleOutput } from '@/lib/sandbox';
+
+const RELOAD_DELAY = 500;
+const HEARTBEAT_INTERVAL = 1000;
+const { timeoutMs: HEARTBEAT_TIMEOUT, maxOutputEntries } = DEFAULT_RUN_LIMITS;
+
+interface PreviewError {
+  kind: 'compile' | 'runtime';
+  message: string;
+  file?: string;
+  line?: number;
+}
+
+interface ReactPreviewProps {
+  project: Project;
+  /** Bump to force a fresh render even when the code hasn't changed, e.g. from the Run button. */
+  reloadKey?: number;
+  onErrorLocationChange?: (location: SourceLocation | null) => void;
+  onConsole?: (output: ConsoleOutput) => void;
+}
+
+export const ReactPreview = ({ project, reloadKey = 0, onErrorLocationChange, onConsole }: ReactPreviewProps) => {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [frameKey, setFrameKey] = useState(0);
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<PreviewError | null>(null);
+  const [debouncedProject, setDebouncedProject] = useState(project);
+  // Set after a frame had to be replaced; edits don't re-render until the learner runs or reloads.
+  const [paused, setPaused] = useState(false);
+  const srcDoc = useMemo(createPreviewDocument, []);
+  const callbacks = useRef({ onErrorLocationChange, onConsole });
+  callbacks.current = { onErrorLocationChange, onConsole };
+  // When the oldest unanswered ping was sent, or null when the frame has answered them all.
+  const pingSentAt = useRef<number | null>(null);
+  const consoleCount = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedProject(project), RELOAD_DELAY);
+    return () => clearTimeout(timer);
+  }, [project]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow || !isPreviewMessage(event.data)) return;
+      const message = event.data;
+      switch (message.type) {
+        case 'ready':
+          pingSentAt.current = null;
+          setIsReady(true);
+          break;
+        case 'pong':
+          pingSentAt.current = null;
+          break;
+        case 'rendered':
+          setError(null);
+          break;
+        case 'error':
+          setError({ kind: 'runtime', message: message.message, file: message.file, line: message.line });
+          break;
+        case 'console':
+          // The same cap as the sandbox runners, so a render loop that logs can't flood the console.
+          if (++consoleCount.current > maxOutputEntries) {
+            if (consoleCount.current === maxOutputEntries + 1) {
+              callbacks.current.onConsole?.({
+                level: 'error',
+                text: `The preview printed more than ${maxOutputEntries} lines, so further output is hidden until it renders again.`,
+              });
+            }
+            break;
+          }
+          callbacks.current.onConsole?.({ level: message.level, text: message.text });
+          break;
+      }
+    };
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  // A component stuck in an endless loop never lets the frame answer, so the frame is replaced.
+  useEffect(() => {
+    if (!isReady) return;
+    let nextPing = 0;
+    const timer = setInterval(() => {
+      if (pingSentAt.current === null) {
+        pingSentAt.current = Date.now();
+        iframeRef.current?.contentWindow?.postMessage({ type: 'ping', id: nextPing++ }, '*');
+      } else if (Date.now() - pingSentAt.current > HEARTBEAT_TIMEOUT) {
+        pingSentAt.current = null;
+        setIsReady(false);
+        setPaused(true);
+        setFrameKey((key) => key + 1);
+        setError({
+          kind: 'runtime',
+          message:
+            `Your component ran for more than ${HEARTBEAT_TIMEOUT / 1000} seconds without finishing, so the preview was restarted. ` +
+            'Is there a loop that never ends? Fix it, then press Run.',
+        });
+      }
+    }, HEARTBEAT_INTERVAL);
+    return () => clearInterval(timer);
+  }, [isReady]);
+
+  useEffect(() => {
+    setPaused(false);
+  }, [reloadKey]);
+
+  useEffect(() => {
+    if (!isReady || paused) return;
+    let cancelled = false;
+    transpileProject(debouncedProject.files).then((result) => {
+      if (cancelled) return;
+      if (result.error) {
+        setError({ kind: 'compile', ...result.error });
+        return;
+      }
+      consoleCount.current = 0;
+      // The frame has an opaque origin, so there is no narrower target origin to use.
+      iframeRef.current?.contentWindow?.postMessage(
+        { type: 'render', modules: result.modules, entry: debouncedProject.entry },
+        '*',
+      );
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedProject, isReady, paused, reloadKey]);
+
+  useEffect(() => {
+    const { file, line } = error ?? {};
+    callbacks.current.onErrorLocationChange?.(file && line ? { file, line } : null);
+  }, [error]);
+
+  const handleReload = () => {
+    setIsReady(false);
+    setPaused(false);
+    setError(null);
+    setFrameKey((key) => key + 1);
+  };
+
+  return (
+    <Card className="h-full bg-code-bg border-code-border shadow-card flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-code-border">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Eye className="w-4 h-4" />
+          <span>Preview</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={handleReload} title="Reload preview">
+          <RefreshCw className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="relative flex-1 bg-white">
+        <iframe
+          key={frameKey}
+          ref={iframeRef}
+          title="React preview"
+          srcDoc={srcDoc}
+          sandbox="allow-scripts allow-modals"
+          className="w-full h-full border-0"
+        />
+        {error && (
+          <div className="absolute inset-0 bg-background/95 p-4 overflow-auto">
+            <div className="flex items-center gap-2 text-destructive font-semibold text-sm mb-2">
+              <AlertCircle className="w-4 h-4" />
+              {error.kind === 'compile' ? 'Compile error' : 'Runtime error'}
+              {error.file && (
+                <span className="text-muted-foreground font-normal">
+                  {error.file}
+                  {error.line !== undefined && `:${error.line}`}
+                </span>
+              )}
+            </div>
+            <pre className="text-xs font-mono whitespace-pre-wrap text-foreground">{error.message}</pre>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Database, KeyRound, RotateCcw, Table2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  datasets,
+  getCurrentDataset,
+  getSchema,
+  onSchemaChange,
+  resetDatabase,
+  type TableSchema,
+} from '@/lib/sandbox';
+
+export const SchemaBrowser = () => {
+  const [tables, setTables] = useState<TableSchema[]>([]);
+  const [dataset, setDataset] = useState(getCurrentDataset);
+  const [isResetting, setIsResetting] = useState(false);
+  const { toast } = useToast();
+
+  const refresh = useCallback(() => {
+    getSchema()
+      .then(setTables)
+      .catch(() => setTables([]));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    return onSchemaChange(refresh);
+  }, [refresh]);
+
+  const handleReset = async (next = dataset) => {
+    setIsResetting(true);
+    try {
+      await resetDatabase(next);
+      setDataset(next);
+      toast({
+        title: "Database reset",
+        description: `The ${datasets.find((d) => d.id === next)?.name ?? next} sample data has been restored`,
+        duration: 2000,
+      });
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  return (
+    <Card className="h-full bg-code-bg border-code-border shadow-card flex flex-col">
+      <div className="p-3 border-b border-code-border space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Database className="w-4 h-4" />
+            <span>Schema</span>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleReset()}
+            disabled={isResetting}
+            title="Reset to sample data"
+          >
+            <RotateCcw className={`w-4 h-4 ${isResetting ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        <Select value={dataset} onValueChange={(value) => handleReset(value)}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {datasets.map((option) => (
+              <SelectItem key={option.id} value={option.id} className="text-xs">
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-3 space-y-3">
+          {tables.map((table) => (
+            <div key={table.name}>
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <Table2 className="w-3 h-3 text-primary" />
+                <span className="font-mono">{table.name}</span>
+                <span className="ml-auto text-xs text-muted-foreground">{table.rowCount} rows</span>
+              </div>
+              <ul className="mt-1 ml-5 space-y-0.5">
+                {table.columns.map((column) => (
+                  <li key={column.name} className="flex items-center gap-1 font-mono text-xs text-muted-foreground">
+                    {column.primaryKey && <KeyRound className="w-3 h-3 text-yellow-500" />}
+                    <span className="text-foreground">{column.name}</span>
+                    <span>{column.type.toLowerCase()}</span>
+                    {column.notNull && !column.primaryKey && <span className="opacity-60">not null</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          {tables.length === 0 && <p className="text-xs text-muted-foreground">No tables yet.</p>}
+        </div>
+      </ScrollArea>
+    </Card>
+  );
+};
@@ -0,0 +1,188 @@
+import { useMemo, useState, useSyncExternalStore } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download } from 'lucide-react';
+import { downloadFile } from '@/lib/editor/files';
+import {
+  aggregateUsage,
+  dayOf,
+  estimateCost,
+  getUsageLimits,
+  getUsageLog,
+  groupLabel,
+  onUsageChange,
+  totalUsage,
+  usageCsv,
+  type UsageLimits,
+} from '@/lib/ai';
+
+const limitFields: { key: keyof UsageLimits; label: string; format: (value: number) => string }[] = [
+  { key: 'dailyTokens', label: 'Tokens per day', format: (value) => value.toLocaleString() },
+  { key: 'monthlyTokens', label: 'Tokens per month', format: (value) => value.toLocaleString() },
+  { key: 'dailyRequests', label: 'Requests per day', format: (value) => value.toLocaleString() },
+  { key: 'monthlyRequests', label: 'Requests per month', format: (value) => value.toLocaleString() },
+  { key: 'requestsPerMinute', label: 'Requests per minute', format: (value) => value.toLocaleString() },
+  { key: 'inputPricePerMillion', label: 'Input price per 1M tokens', format: (value) => `$${value.toFixed(2)}` },
+  { key: 'outputPricePerMillion', label: 'Output price per 1M tokens', format: (value) => `$${value.toFixed(2)}` },
+];
+
+const formatCount = (value: number) =>
+  value >= 10_000 ? `${Math.round(value / 1000)}k` : value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
+
+const formatCost = (value: number) => `$${value.toFixed(value < 1 ? 4 : 2)}`;
+
+// Share of a limit used, as a percentage; 0 when there is no limit.
+const share = (used: number, limit: number) => (limit ? Math.min(100, (used / limit) * 100) : 0);
+
+const UsageBar = ({ label, used, limit }: { label: string; used: number; limit: number }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-xs">
+      <span className="text-muted-foreground">{label}</span>
+      <span>
+        {used.toLocaleString()}
+        {limit ? ` / ${limit.toLocaleString()}` : ' · no limit'}
+      </span>
+    </div>
+    <Progress value={share(used, limit)} className="h-1.5" />
+  </div>
+);
+
+/** Today's token use against the daily budget; opens the usage report and limits. */
+export const UsageMeter = () => {
+  const records = useSyncExternalStore(onUsageChange, getUsageLog);
+  const limits = getUsageLimits();
+  const [groupBy, setGroupBy] = useState<'day' | 'group'>('day');
+
+  const today = dayOf(Date.now());
+  const todayTotals = useMemo(() => totalUsage(records.filter((record) => record.day === today)), [records, today]);
+  const monthTotals = useMemo(
+    () => totalUsage(records.filter((record) => record.day.startsWith(today.slice(0, 7)))),
+    [records, today],
+  );
+  const rows = useMemo(() => aggregateUsage(groupBy, records), [groupBy, records]);
+  const used = share(todayTotals.tokens, limits.dailyTokens);
+  const showCost = limits.inputPricePerMillion > 0 || limits.outputPricePerMillion > 0;
+
+  const handleExportJson = () =>
+    downloadFile(
+      `ai-usage-${today}.json`,
+      JSON.stringify({ exportedAt: new Date().toISOString(), limits, records }, null, 2),
+    );
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button
+          type="button"
+          className="flex w-14 flex-col gap-1 rounded px-1 py-0.5 text-[10px] text-muted-foreground hover:bg-muted"
+          title={`${todayTotals.tokens.toLocaleString()} tokens used today${
+            limits.dailyTokens ? ` of ${limits.dailyTokens.toLocaleString()}` : ''
+          }. Click for details.`}
+        >
+          <span className={used >= 90 ? 'text-destructive' : ''}>{formatCount(todayTotals.tokens)} today</span>
+          <Progress value={used} className="h-1" />
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>AI usage</DialogTitle>
+          <DialogDescription>
+            Tokens and requests sent from this browser. Usage a provider doesn't report is estimated.
+          </DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="report">
+          <TabsList>
+            <TabsTrigger value="report">Report</TabsTrigger>
+            <TabsTrigger value="limits">Limits</TabsTrigger>
+          </TabsList>
+          <TabsContent value="report" className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <UsageBar label="Tokens today" used={todayTotals.tokens} limit={limits.dailyTokens} />
+              <UsageBar label="Tokens this month" used={monthTotals.tokens} limit={limits.monthlyTokens} />
+              <UsageBar label="Requests today" used={todayTotals.requests} limit={limits.dailyRequests} />
+              <UsageBar label="Requests this month" used={monthTotals.requests} limit={limits.monthlyRequests} />
+            </div>
+            <div className="flex items-center gap-2">
+              <Tabs value={groupBy} onValueChange={(value) => setGroupBy(value as 'day' | 'group')}>
+                <TabsList className="h-8">
+                  <TabsTrigger value="day" className="text-xs">Per day</TabsTrigger>
+                  <TabsTrigger value="group" className="text-xs">Per topic</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <Button
+                variant="outline"
+                size="sm"
+                className="ml-auto"
+                disabled={records.length === 0}
+                onClick={() => downloadFile(`ai-usage-${today}.csv`, usageCsv(records))}
+              >
+                <Download className="w-4 h-4 mr-1" />
+                CSV
+              </Button>
+              <Button variant="outline" size="sm" disabled={records.length === 0} onClick={handleExportJson}>
+                <Download className="w-4 h-4 mr-1" />
+                JSON
+              </Button>
+            </div>
+            {rows.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No AI requests yet.</p>
+            ) : (
+              <ScrollArea className="h-64">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{groupBy === 'day' ? 'Day' : 'Topic'}</TableHead>
+                      <TableHead className="text-right">Requests</TableHead>
+                      <TableHead className="text-right">Input</TableHead>
+                      <TableHead className="text-right">Output</TableHead>
+                      {showCost && <TableHead className="text-right">Cost</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => (
+                      <TableRow key={row.key}>
+                        <TableCell>{groupBy === 'day' ? row.key : groupLabel(row.key)}</TableCell>
+                        <TableCell className="text-right">{row.requests}</TableCell>
+                        <TableCell className="text-right">{row.inputTokens.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{row.outputTokens.toLocaleString()}</TableCell>
+                        {showCost && <TableCell className="text-right">{formatCost(estimateCost(row, limits))}</TableCell>}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+          </TabsContent>
+          <TabsContent value="limits" className="space-y-4">
+            <p className="text-xs text-muted-foreground">
+              Set by whoever runs this app. Requests over a limit aren't sent.
+            </p>
+            <Table>
+              <TableBody>
+                {limitFields.map(({ key, label, format }) => (
+                  <TableRow key={key}>
+                    <TableCell className="text-muted-foreground">{label}</TableCell>
+                    <TableCell className="text-right">
+                      {limits[key] ? format(limits[key]) : key.endsWith('PerMillion') ? 'Not set' : 'No limit'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
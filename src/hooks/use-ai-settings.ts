@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getAISettings, onAISettingsChange } from '@/lib/ai';
+
+export function useAISettings() {
+  return useSyncExternalStore(onAISettingsChange, getAISettings);
+}
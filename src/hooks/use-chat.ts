@@ -0,0 +1,269 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  checkQuota,
+  createProvider,
+  describeContext,
+  estimateTokens,
+  limitContext,
+  noteRequest,
+  recordUsage,
+  tutorPrompt,
+  ASSISTANT_SYSTEM_PROMPT,
+  type AISettings,
+  type ChatContext,
+  type ChatMessage,
+  getConversation,
+  latestConversation,
+  saveConversation,
+  titleFrom,
+  type Conversation,
+  type ConversationMessage as Message,
+  type HintLevel,
+  type TokenUsage,
+} from '@/lib/ai';
+
+export interface RespondOptions {
+  /** Attached to the request as part of the system prompt. */
+  context?: ChatContext | null;
+  /** Answer as a Socratic tutor at this hint level instead of giving full answers. */
+  hintLevel?: HintLevel;
+}
+
+const systemPrompt = ({ context, hintLevel }: RespondOptions) =>
+  [ASSISTANT_SYSTEM_PROMPT, hintLevel && tutorPrompt(hintLevel), context && describeContext(context)]
+    .filter(Boolean)
+    .join('\n\n');
+
+const GREETING: Message = {
+  id: 'greeting',
+  type: 'ai',
+  content: 'Hello! I\'m your AI coding assistant. Ask me anything about programming concepts, debugging, or best practices!',
+  timestamp: new Date(),
+};
+
+let nextMessageId = 0;
+const createId = () => `${Date.now()}-${nextMessageId++}`;
+
+const withGreeting = (conversation: Conversation | null) => [GREETING, ...(conversation?.messages ?? [])];
+
+const toChatMessages = (messages: Message[]): ChatMessage[] =>
+  messages
+    .filter((message) => message !== GREETING && !message.error)
+    .map((message) => ({ role: message.type === 'user' ? 'user' : 'assistant', content: message.content }));
+
+/**
+ * Chat state for one conversation at a time, saved locally as it goes. `group` is the topic or
+ * lesson new conversations are filed under; switching it reopens that group's latest one.
+ */
+export function useChat(settings: AISettings, group: string) {
+  const [conversationId, setConversationId] = useState(() => latestConversation(group)?.id ?? null);
+  const [messages, setMessages] = useState<Message[]>(() => withGreeting(latestConversation(group)));
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  // Only changes made by chatting are saved; merely opening a conversation shouldn't bump it.
+  const dirtyRef = useRef(false);
+  const groupRef = useRef(group);
+  // Set when the browser refused to save the conversation, so the chat can say so.
+  const [saveFailed, setSaveFailed] = useState(false);
+  // Why the last question got no reply when the AI budget was used up; a notice, not a chat message.
+  const [quotaNotice, setQuotaNotice] = useState<string | null>(null);
+
+  const persist = useCallback(
+    (id: string, history: Message[]) => {
+      const existing = getConversation(id);
+      const saved = saveConversation({
+        id,
+        title: existing?.title ?? titleFrom(history),
+        group: existing?.group ?? groupRef.current,
+        createdAt: existing?.createdAt ?? Date.now(),
+        updatedAt: Date.now(),
+        messages: history,
+      });
+      setSaveFailed(!saved);
+    },
+    [],
+  );
+
+  // Saves the conversation if it has a question in it; returns its id once it has one.
+  const save = useCallback(
+    (id: string | null, all: Message[]) => {
+      const history = all.filter((message) => message !== GREETING);
+      if (!history.some((message) => message.type === 'user')) return id;
+      const saved = id ?? createId();
+      persist(saved, history);
+      return saved;
+    },
+    [persist],
+  );
+
+  useEffect(() => {
+    if (isStreaming || !dirtyRef.current) return;
+    dirtyRef.current = false;
+    const id = save(conversationId, messages);
+    if (id !== conversationId) setConversationId(id);
+  }, [messages, isStreaming, conversationId, save]);
+
+  const latest = useRef({ conversationId, messages, isStreaming });
+  latest.current = { conversationId, messages, isStreaming };
+
+  /** Switches to a saved conversation, or to a fresh one when given null. */
+  const open = useCallback((conversation: Conversation | null) => {
+    // A reply still streaming in is kept as stopped rather than lost.
+    if (dirtyRef.current) {
+      const { conversationId: id, messages: current, isStreaming: streaming } = latest.current;
+      const last = current[current.length - 1];
+      save(id, streaming ? [...current.slice(0, -1), ...(last.content ? [{ ...last, stopped: true }] : [])] : current);
+    }
+    abortRef.current?.abort();
+    abortRef.current = null;
+    dirtyRef.current = false;
+    setIsStreaming(false);
+    setQuotaNotice(null);
+    setConversationId(conversation?.id ?? null);
+    setMessages(withGreeting(conversation));
+  }, [save]);
+
+  useEffect(() => {
+    if (groupRef.current === group) return;
+    groupRef.current = group;
+    open(latestConversation(group));
+  }, [group, open]);
+
+  const updateMessage = (id: string, update: (message: Message) => Partial<Message>) =>
+    setMessages((prev) => prev.map((message) => (message.id === id ? { ...message, ...update(message) } : message)));
+
+  // Streams a reply to `history` into a new AI message appended after it. Resolves to whether
+  // the reply arrived in full.
+  const respond = useCallback(
+    async (history: Message[], options: RespondOptions) => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      const reply: Message = {
+        id: createId(),
+        type: 'ai',
+        content: '',
+        timestamp: new Date(),
+        hintLevel: options.hintLevel,
+      };
+      dirtyRef.current = true;
+
+      // Over budget: the question stays unanswered and a notice says why; it can be sent again later.
+      const quota = checkQuota();
+      setQuotaNotice(quota.blocked ?? null);
+      if (quota.blocked) {
+        setMessages(history);
+        return false;
+      }
+      noteRequest();
+
+      setMessages([...history, reply]);
+      setIsStreaming(true);
+
+      // Requests that never reached the provider, or that it turned down, cost nothing.
+      let accepted = false;
+      const request = {
+        messages: toChatMessages(history),
+        system: systemPrompt(options),
+        hintLevel: options.hintLevel,
+        signal: controller.signal,
+        onAccepted: () => {
+          accepted = true;
+        },
+      };
+      let received = '';
+      let usage: TokenUsage | undefined;
+      try {
+        ({ usage } = await createProvider(settings).stream(request, (text) => {
+          received += text;
+          updateMessage(reply.id, (message) => ({ content: message.content + text }));
+        }));
+        return true;
+      } catch (error) {
+        if (controller.signal.aborted) {
+          // Keep whatever arrived before the learner pressed Stop.
+          setMessages((prev) =>
+            prev.flatMap((message) =>
+              message.id !== reply.id ? [message] : message.content ? [{ ...message, stopped: true }] : [],
+            ),
+          );
+        } else {
+          updateMessage(reply.id, () => ({
+            content: error instanceof Error ? error.message : String(error),
+            error: true,
+          }));
+        }
+        return false;
+      } finally {
+        // Accepted requests that were stopped or failed may still be billed, so they count using an estimate.
+        if (accepted) {
+          recordUsage(
+            groupRef.current,
+            settings.model,
+            usage ?? {
+              inputTokens: estimateTokens(request.system + request.messages.map((message) => message.content).join('')),
+              outputTokens: estimateTokens(received),
+            },
+          );
+        }
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setIsStreaming(false);
+        }
+      }
+    },
+    [settings],
+  );
+
+  const send = useCallback(
+    (content: string, options: RespondOptions = {}) => {
+      const userMessage: Message = {
+        id: createId(),
+        type: 'user',
+        content,
+        timestamp: new Date(),
+        context: options.context ? limitContext(options.context) : undefined,
+      };
+      return respond([...messages, userMessage], options);
+    },
+    [messages, respond],
+  );
+
+  const stop = useCallback(() => abortRef.current?.abort(), []);
+
+  const lastMessage = messages[messages.length - 1];
+  const canRegenerate = !isStreaming && lastMessage !== GREETING;
+
+  /**
+   * Replaces the last AI reply with a fresh one at the same hint level, or sends a question that was
+   * left without a reply (stopped before any text came, or over budget) at `hintLevel`.
+   */
+  const regenerate = useCallback(
+    (context: ChatContext | null = null, hintLevel?: HintLevel) => {
+      if (!canRegenerate) return;
+      if (lastMessage.type === 'user') return respond(messages, { context, hintLevel });
+      return respond(messages.slice(0, -1), { context, hintLevel: lastMessage.hintLevel });
+    },
+    [canRegenerate, lastMessage, messages, respond],
+  );
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const openConversation = useCallback((id: string) => open(getConversation(id)), [open]);
+  const newChat = useCallback(() => open(null), [open]);
+
+  return {
+    conversationId,
+    messages,
+    isStreaming,
+    saveFailed,
+    quotaNotice,
+    send,
+    stop,
+    regenerate,
+    canRegenerate,
+    openConversation,
+    newChat,
+  };
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_RUN_LIMITS,
+  getCurrentDataset,
+  getIsolatedRunner,
+  getRunner,
+  type ConsoleEntry,
+  type ConsoleOutput,
+  type RunHandle,
+  type RunLimits,
+  type RunInput,
+  type RunPhase,
+  type RunStatus,
+} from '@/lib/sandbox';
+
+interface CodeRunnerOptions {
+  /** SQL runs on a fresh copy of the current dataset, leaving the learner's database untouched. */
+  isolated?: boolean;
+}
+
+export function useCodeRunner(limits: Partial<RunLimits> = {}, { isolated = false }: CodeRunnerOptions = {}) {
+  const { timeoutMs, maxOutputEntries, maxEntryLength } = { ...DEFAULT_RUN_LIMITS, ...limits };
+  const [entries, setEntries] = useState<ConsoleEntry[]>([]);
+  const [phase, setPhase] = useState<RunPhase | null>(null);
+  const handleRef = useRef<RunHandle | null>(null);
+  const runId = useRef(0);
+  const nextEntryId = useRef(0);
+
+  const append = useCallback((output: ConsoleOutput) => {
+    const entry = { ...output, id: nextEntryId.current++ };
+    setEntries((prev) => [...prev, entry]);
+  }, []);
+
+  const stop = useCallback(() => {
+    runId.current++;
+    handleRef.current?.cancel();
+    handleRef.current = null;
+    setPhase(null);
+  }, []);
+
+  const clear = useCallback(() => setEntries([]), []);
+
+  const run = useCallback(
+    async (language: string, input: RunInput): Promise<RunStatus> => {
+      stop();
+      setEntries([]);
+
+      const runLimits = { timeoutMs, maxOutputEntries, maxEntryLength };
+      const runner = isolated ? getIsolatedRunner(language, runLimits, getCurrentDataset()) : getRunner(language, runLimits);
+      if (!runner) {
+        append({ level: 'system', text: `Running ${language} code is not supported yet.` });
+        return 'error';
+      }
+
+      // Output from a run that has since been stopped or replaced is dropped.
+      const id = runId.current;
+      const isCurrent = () => runId.current === id;
+      const handle = runner(input, {
+        output: (output) => isCurrent() && append(output),
+        phase: (next) => isCurrent() && setPhase(next),
+      });
+      handleRef.current = handle;
+      setPhase((current) => current ?? 'running');
+
+      const status = await handle.done;
+      if (isCurrent()) {
+        setPhase(null);
+      }
+      return status;
+    },
+    [append, stop, isolated, timeoutMs, maxOutputEntries, maxEntryLength],
+  );
+
+  useEffect(() => stop, [stop]);
+
+  return { entries, phase, isRunning: phase !== null, run, stop, clear, append };
+}
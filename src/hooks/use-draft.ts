@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Project } from '@/lib/project';
+import { clearDraft, loadDraft, saveDraft } from '@/lib/project/drafts';
+
+const AUTOSAVE_DELAY_MS = 800;
+
+/** `original` means there is no draft and the editor shows the untouched example. */
+export type DraftStatus = 'original' | 'unsaved' | 'saved';
+
+export function useDraft(key: string) {
+  const [status, setStatus] = useState<DraftStatus>(() => (loadDraft(key) ? 'saved' : 'original'));
+  const pending = useRef<{ key: string; project: Project } | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+
+  const flush = useCallback(() => {
+    clearTimeout(timer.current);
+    const next = pending.current;
+    pending.current = null;
+    return next ? saveDraft(next.key, next.project) : true;
+  }, []);
+
+  // Switching to another key writes out whatever was still pending for the previous one.
+  useEffect(() => {
+    setStatus(loadDraft(key) ? 'saved' : 'original');
+    return () => {
+      flush();
+    };
+  }, [key, flush]);
+
+  useEffect(() => {
+    const handleUnload = () => flush();
+    window.addEventListener('beforeunload', handleUnload);
+    return () => window.removeEventListener('beforeunload', handleUnload);
+  }, [flush]);
+
+  const save = useCallback(
+    (project: Project) => {
+      pending.current = { key, project };
+      setStatus('unsaved');
+      clearTimeout(timer.current);
+      timer.current = setTimeout(() => {
+        if (flush()) setStatus('saved');
+      }, AUTOSAVE_DELAY_MS);
+    },
+    [key, flush],
+  );
+
+  const discard = useCallback(() => {
+    clearTimeout(timer.current);
+    pending.current = null;
+    clearDraft(key);
+    setStatus('original');
+  }, [key]);
+
+  return { status, save, discard };
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { gradeExercise, setExerciseComplete, type Exercise, type GradeHandle, type GradeReport } from '@/lib/curriculum';
+import type { Project } from '@/lib/project';
+import type { ConsoleOutput, RunPhase } from '@/lib/sandbox';
+
+/** Submits exercises for grading; output from the learner's own code goes to `onOutput`. */
+export function useExerciseGrader(onOutput: (output: ConsoleOutput) => void) {
+  const [phase, setPhase] = useState<RunPhase | null>(null);
+  const [report, setReport] = useState<GradeReport | null>(null);
+  const handleRef = useRef<GradeHandle | null>(null);
+
+  const stop = useCallback(() => {
+    handleRef.current?.cancel();
+    handleRef.current = null;
+    setPhase(null);
+  }, []);
+
+  const clear = useCallback(() => setReport(null), []);
+
+  const submit = useCallback(
+    async (topic: string, exercise: Exercise, project: Project) => {
+      stop();
+      setReport(null);
+      const handle = gradeExercise(topic, exercise, project, { output: onOutput, phase: setPhase });
+      handleRef.current = handle;
+      setPhase((current) => current ?? 'running');
+
+      const result = await handle.done;
+      // A newer submission or a stop has taken over.
+      if (handleRef.current !== handle) return null;
+      handleRef.current = null;
+      setPhase(null);
+      setReport(result);
+      // A later failing attempt doesn't take away an exercise already completed.
+      if (result?.complete) setExerciseComplete(exercise.id, true);
+      return result;
+    },
+    [onOutput, stop],
+  );
+
+  useEffect(() => stop, [stop]);
+
+  return { phase, isGrading: phase !== null, report, submit, stop, clear };
+}
@@ -0,0 +1,38 @@
+import { useParams } from 'react-router-dom';
+import { getCourse, getExercise, getLesson, nextLesson, type Exercise } from '@/lib/curriculum';
+import { DEFAULT_TOPIC, lessonPath, topicPath } from '@/lib/routes';
+import { getTopic } from '@/lib/topics';
+
+export type LearningRoute =
+  | { kind: 'workspace'; topic: string; lessonId: string | null; exercise: Exercise | null }
+  | { kind: 'redirect'; to: string }
+  | { kind: 'not-found'; message: string };
+
+/**
+ * What to show for the current URL. A topic on its own redirects to the lesson to pick up from,
+ * so the address always names the lesson on screen.
+ */
+export function useLearningRoute(): LearningRoute {
+  const { topicId, lessonId, exerciseId } = useParams();
+
+  if (exerciseId !== undefined) {
+    const match = getExercise(exerciseId);
+    if (!match) return { kind: 'not-found', message: `There's no exercise called "${exerciseId}".` };
+    return { kind: 'workspace', topic: match.course.id, lessonId: match.lesson.id, exercise: match.exercise };
+  }
+
+  if (topicId === undefined) return { kind: 'redirect', to: topicPath(DEFAULT_TOPIC) };
+  const topic = getTopic(topicId);
+  if (!topic) return { kind: 'not-found', message: `There's no topic called "${topicId}".` };
+
+  const course = getCourse(topicId);
+  if (lessonId === undefined) {
+    const next = course && nextLesson(course);
+    // Topics without a course yet still get the editor and assistant.
+    return next ? { kind: 'redirect', to: lessonPath(topicId, next.id) } : { kind: 'workspace', topic: topicId, lessonId: null, exercise: null };
+  }
+  if (!getLesson(topicId, lessonId)) {
+    return { kind: 'not-found', message: `${topic.name} has no lesson called "${lessonId}".` };
+  }
+  return { kind: 'workspace', topic: topicId, lessonId, exercise: null };
+}
@@ -0,0 +1,97 @@
+import { fillTemplate, type PromptTemplate, type TemplateVars } from './templates';
+import type { HintLevel } from './tutor';
+
+export interface SlashCommand {
+  /** Typed after the slash, e.g. `translate`. */
+  name: string;
+  /** Shown in the autocomplete list, e.g. `<language>`. */
+  usage?: string;
+  description: string;
+  /** The command can't run without text after its name. */
+  requiresInput?: boolean;
+  /** Prompt body; `{{input}}` is whatever follows the command name. */
+  template: string;
+  /** Answer as a tutor at this level, whatever the chat's tutor setting. */
+  hintLevel?: HintLevel;
+  /** Set for learner-defined templates. */
+  templateId?: string;
+}
+
+export interface ExpandedCommand {
+  prompt: string;
+  hintLevel?: HintLevel;
+}
+
+const SUBJECT = '{{selection}}';
+
+export const builtInCommands: SlashCommand[] = [
+  {
+    name: 'explain',
+    usage: '[question]',
+    description: 'Explain the selected code, or the open file',
+    template: `Explain this {{language}} code step by step.\n\n\`\`\`\n${SUBJECT}\n\`\`\`\n\n{{input}}`,
+  },
+  {
+    name: 'hint',
+    description: "A nudge in the right direction, not the answer",
+    template: "I'm stuck on my {{language}} code. Give me a hint, not the answer. {{input}}",
+    hintLevel: 1,
+  },
+  {
+    name: 'quiz',
+    usage: 'me [topic]',
+    description: 'Practice questions, one at a time',
+    template:
+      'Quiz me on {{input}}. Ask one question at a time, wait for my answer, tell me whether I was right and why, then ask the next one.',
+  },
+  {
+    name: 'review',
+    description: 'Code review: bugs, readability and style',
+    template: `Review this {{language}} code like a friendly senior developer. Point out bugs first, then readability and style, and suggest concrete improvements.\n\n\`\`\`\n${SUBJECT}\n\`\`\`\n\n{{input}}`,
+  },
+  {
+    name: 'eli5',
+    usage: '[concept]',
+    description: "Explain it like I'm five",
+    template: "Explain {{input}} like I'm five years old, using an everyday analogy and no jargon.",
+  },
+  {
+    name: 'translate',
+    usage: '<language>',
+    description: 'Rewrite the code in another language',
+    requiresInput: true,
+    template: `Translate this {{language}} code to {{input}}. Keep the behaviour the same, write it the way a {{input}} developer would, and point out any differences worth knowing.\n\n\`\`\`\n${SUBJECT}\n\`\`\``,
+  },
+];
+
+export const templateCommand = (template: PromptTemplate): SlashCommand => ({
+  name: template.name,
+  description: template.description || 'Your template',
+  template: template.body,
+  templateId: template.id,
+});
+
+/** Commands whose name starts with what has been typed after the slash. */
+export const matchCommands = (commands: SlashCommand[], typed: string) =>
+  commands.filter((command) => command.name.startsWith(typed.toLowerCase()));
+
+/**
+ * Turns `/name rest of line` into the prompt to send. Returns null when the input isn't a known
+ * command, so it's sent as typed; throws when a command is missing required input.
+ */
+export const expandCommand = (input: string, commands: SlashCommand[], vars: TemplateVars): ExpandedCommand | null => {
+  const match = /^\/(\S+)\s*([\s\S]*)$/.exec(input.trim());
+  const command = match && commands.find((candidate) => candidate.name === match[1].toLowerCase());
+  if (!command) return null;
+
+  let rest = match[2].trim();
+  // "/quiz me loops" reads naturally, but "me" isn't the topic.
+  if (command.name === 'quiz') rest = rest.replace(/^me\b\s*/i, '') || `the ${vars.language || 'programming'} I've been practising`;
+  if (command.name === 'eli5' && !rest) rest = 'this code';
+  if (command.requiresInput && !rest) throw new Error(`Usage: /${command.name} ${command.usage ?? '<text>'}`);
+
+  return {
+    prompt: fillTemplate(command.template, { ...vars, input: rest }).trim(),
+    hintLevel: command.hintLevel,
+  };
+};
@@ -0,0 +1,139 @@
+import type { Project, SourceRange } from '@/lib/project';
+import type { ConsoleLevel, ConsoleOutput } from '@/lib/sandbox';
+import { languageName } from './quick-actions';
+import type { TemplateVars } from './templates';
+
+/** What the learner is looking at, attached to chat requests so answers can refer to it. */
+export interface ChatContext {
+  /** Topic id, e.g. `javascript` or `database`. */
+  language: string;
+  project: Project;
+  activeFile: string;
+  selection?: SourceRange | null;
+  /** Console output of the most recent run, oldest first. */
+  output: ConsoleOutput[];
+}
+
+// Keeps large projects and noisy programs from crowding out the conversation itself.
+const MAX_FILE_LENGTH = 8000;
+const MAX_OUTPUT_ENTRIES = 30;
+const MAX_OUTPUT_LENGTH = 3000;
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max)}\n… (truncated)` : text);
+
+// Numbered so "why does line 7 fail?" can be answered without the model counting lines.
+const numberLines = (code: string) =>
+  code
+    .split('\n')
+    .map((line, index) => `${String(index + 1).padStart(4)} | ${line}`)
+    .join('\n');
+
+export const hasSelection = (context: ChatContext) => Boolean(context.selection?.text);
+
+export const errorCount = (context: ChatContext) => context.output.filter((entry) => entry.level === 'error').length;
+
+/**
+ * The context cut to what `describeContext` sends: long files shortened and only the latest output.
+ * Questions keep this in history, so it shows exactly what the assistant was given.
+ */
+export const limitContext = ({ project, output, ...rest }: ChatContext): ChatContext => ({
+  ...rest,
+  project: {
+    ...project,
+    files: Object.fromEntries(Object.entries(project.files).map(([path, code]) => [path, truncate(code, MAX_FILE_LENGTH)])),
+  },
+  output: output.slice(-MAX_OUTPUT_ENTRIES).map((entry) => ({ ...entry, text: truncate(entry.text, MAX_OUTPUT_LENGTH) })),
+});
+
+const consoleLevels: ConsoleLevel[] = ['log', 'info', 'warn', 'error', 'result', 'system'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const readSelection = (value: unknown, activeFile: string): SourceRange | null | undefined => {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value)) return undefined;
+  const { file, startLine, endLine, from, to, text } = value;
+  if (!Number.isInteger(startLine) || !Number.isInteger(endLine) || typeof text !== 'string') return undefined;
+  return {
+    file: typeof file === 'string' ? file : activeFile,
+    startLine: startLine as number,
+    endLine: endLine as number,
+    from: Number.isInteger(from) ? (from as number) : 0,
+    to: Number.isInteger(to) ? (to as number) : 0,
+    text,
+  };
+};
+
+const readOutput = (value: unknown): ConsoleOutput | undefined => {
+  if (!isRecord(value) || !consoleLevels.includes(value.level as ConsoleLevel) || typeof value.text !== 'string') return undefined;
+  const { level, text, file, line } = value;
+  return {
+    level: level as ConsoleLevel,
+    text,
+    ...(typeof file === 'string' && { file }),
+    ...(Number.isInteger(line) && { line: line as number }),
+  };
+};
+
+/**
+ * Reads a context back from saved history or an imported file; anything not shaped like one comes
+ * back as undefined and is left out.
+ */
+export const parseContext = (value: unknown): ChatContext | undefined => {
+  if (!isRecord(value)) return undefined;
+  const { language, activeFile, project, selection, output } = value;
+  if (typeof language !== 'string' || typeof activeFile !== 'string' || !isRecord(project) || !Array.isArray(output)) return undefined;
+  const { files, entry } = project;
+  if (!isRecord(files) || !Object.values(files).every((code) => typeof code === 'string')) return undefined;
+  const range = readSelection(selection, activeFile);
+  if (range === undefined) return undefined;
+  return limitContext({
+    language,
+    activeFile,
+    project: { files: files as Record<string, string>, entry: typeof entry === 'string' ? entry : activeFile },
+    selection: range,
+    output: output.map(readOutput).filter((item): item is ConsoleOutput => item !== undefined),
+  });
+};
+
+/** Values for prompt template placeholders; `selection` falls back to the whole open file. */
+export const templateVars = (context: ChatContext | null): TemplateVars => {
+  if (!context) return { selection: '', code: '', file: '', language: '' };
+  const code = context.project.files[context.activeFile] ?? '';
+  return {
+    selection: context.selection?.text || code,
+    code,
+    file: context.activeFile,
+    language: languageName(context.language),
+  };
+};
+
+/** Renders the context as a block to append to the system prompt. */
+export const describeContext = (context: ChatContext) => {
+  const { language, project, activeFile, selection, output } = limitContext(context);
+  const sections = [`The learner is working on a ${language} project in the editor. Their current code is below.`];
+
+  const files = [activeFile, ...Object.keys(project.files).filter((path) => path !== activeFile)];
+  for (const path of files) {
+    const label = [path === activeFile && 'open in editor', path === project.entry && 'run on Run'].filter(Boolean).join(', ');
+    sections.push(`File ${path}${label ? ` (${label})` : ''}:\n${numberLines(project.files[path] ?? '')}`);
+  }
+
+  if (selection?.text) {
+    const lines =
+      selection.startLine === selection.endLine ? `line ${selection.startLine}` : `lines ${selection.startLine}-${selection.endLine}`;
+    sections.push(`They have selected ${lines} of ${selection.file}:\n${selection.text}`);
+  }
+
+  if (output.length > 0) {
+    const recent = output.map((entry) => {
+      const location = entry.file && entry.line ? ` (${entry.file}:${entry.line})` : '';
+      return `[${entry.level}${location}] ${entry.text}`;
+    });
+    sections.push(`Output of their last run:\n${truncate(recent.join('\n'), MAX_OUTPUT_LENGTH)}`);
+  } else {
+    sections.push("They haven't run the code yet, or the console was cleared.");
+  }
+
+  return sections.join('\n\n');
+};
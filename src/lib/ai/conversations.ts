@@ -0,0 +1,130 @@
+import { parseContext } from './context';
+import { languageName } from './quick-actions';
+import type { Conversation, ConversationMessage } from './types';
+
+const STORAGE_KEY = 'chat-conversations';
+// Oldest conversations are dropped beyond this, so history can't fill up local storage.
+const MAX_CONVERSATIONS = 100;
+const TITLE_LENGTH = 48;
+
+type StoredConversation = Omit<Conversation, 'messages'> & {
+  messages: (Omit<ConversationMessage, 'timestamp'> & { timestamp: number })[];
+};
+
+// e.g. `python` → "Python", `javascript/3` → "JavaScript · 3"
+export const groupLabel = (group: string) => {
+  const [topic, ...rest] = group.split('/');
+  return [languageName(topic), ...rest].join(' · ');
+};
+
+export interface ConversationMatch {
+  conversation: Conversation;
+  /** Text around the first hit, or null when only the title matched. */
+  snippet: string | null;
+}
+
+const listeners = new Set<() => void>();
+let cache: Conversation[] | null = null;
+
+const revive = (stored: StoredConversation): Conversation => ({
+  ...stored,
+  messages: stored.messages.map(({ context, ...message }) => {
+    const attached = parseContext(context);
+    return { ...message, timestamp: new Date(message.timestamp), ...(attached && { context: attached }) };
+  }),
+});
+
+const serialize = (conversation: Conversation): StoredConversation => ({
+  ...conversation,
+  messages: conversation.messages.map((message) => ({ ...message, timestamp: message.timestamp.getTime() })),
+});
+
+/** All conversations, most recently updated first. */
+export const listConversations = (): Conversation[] => {
+  if (cache) return cache;
+  try {
+    const stored: StoredConversation[] = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    cache = Array.isArray(stored) ? stored.map(revive) : [];
+  } catch {
+    cache = [];
+  }
+  return cache;
+};
+
+// Returns false when the browser refuses the write, e.g. storage is full; the change is still
+// kept in memory for this session.
+const write = (conversations: Conversation[]) => {
+  cache = [...conversations].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, MAX_CONVERSATIONS);
+  let saved = true;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cache.map(serialize)));
+  } catch {
+    saved = false;
+  }
+  listeners.forEach((listener) => listener());
+  return saved;
+};
+
+export const getConversation = (id: string) => listConversations().find((conversation) => conversation.id === id) ?? null;
+
+/** The latest conversation in a group, to pick up where the learner left off. */
+export const latestConversation = (group: string) =>
+  listConversations().find((conversation) => conversation.group === group) ?? null;
+
+/** A title from the learner's first message, until they rename the conversation. */
+export const titleFrom = (messages: ConversationMessage[]) => {
+  const first = messages.find((message) => message.type === 'user')?.content.replace(/\s+/g, ' ').trim() ?? '';
+  if (!first) return 'New chat';
+  return first.length > TITLE_LENGTH ? `${first.slice(0, TITLE_LENGTH - 1)}…` : first;
+};
+
+/** Returns false when the conversation couldn't be saved beyond this session. */
+export const saveConversation = (conversation: Conversation) =>
+  write([conversation, ...listConversations().filter((existing) => existing.id !== conversation.id)]);
+
+/** Adds an imported conversation, under a new id if it would replace one already here. */
+export const importConversation = (conversation: Conversation) => {
+  const imported = {
+    ...conversation,
+    id: getConversation(conversation.id) ? `${Date.now()}` : conversation.id,
+    updatedAt: Date.now(),
+  };
+  saveConversation(imported);
+  return imported;
+};
+
+export const renameConversation = (id: string, title: string) => {
+  const conversation = getConversation(id);
+  if (!conversation || !title.trim()) return;
+  // Renaming shouldn't move the conversation to the top of the list.
+  write(listConversations().map((existing) => (existing.id === id ? { ...existing, title: title.trim() } : existing)));
+};
+
+export const deleteConversation = (id: string) =>
+  write(listConversations().filter((conversation) => conversation.id !== id));
+
+const snippetAround = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - 30);
+  const end = Math.min(text.length, index + length + 50);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+};
+
+/** Case-insensitive search over titles and message text. */
+export const searchConversations = (query: string, conversations = listConversations()): ConversationMatch[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return conversations.map((conversation) => ({ conversation, snippet: null }));
+  return conversations.flatMap((conversation) => {
+    for (const message of conversation.messages) {
+      const index = message.content.toLowerCase().indexOf(needle);
+      if (index !== -1) return [{ conversation, snippet: snippetAround(message.content, index, needle.length) }];
+    }
+    return conversation.title.toLowerCase().includes(needle) ? [{ conversation, snippet: null }] : [];
+  });
+};
+
+export const onConversationsChange = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
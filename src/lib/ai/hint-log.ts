@@ -0,0 +1,40 @@
+import type { HintLevel } from './tutor';
+
+const STORAGE_KEY = 'hint-usage';
+
+export interface HintUsage {
+  /** The most help the learner has asked for on this lesson. */
+  maxLevel: HintLevel;
+  /** Number of tutor replies, across all levels. */
+  hints: number;
+  updatedAt: number;
+}
+
+type HintLog = Record<string, HintUsage>;
+
+const readLog = (): HintLog => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') ?? {};
+  } catch {
+    return {};
+  }
+};
+
+export const getHintUsage = (lessonKey: string): HintUsage | null => readLog()[lessonKey] ?? null;
+
+/** Records a hint given at `level` against a lesson, e.g. to show how much help an exercise took. */
+export const recordHint = (lessonKey: string, level: HintLevel): HintUsage => {
+  const log = readLog();
+  const previous = log[lessonKey];
+  const usage: HintUsage = {
+    maxLevel: previous && previous.maxLevel > level ? previous.maxLevel : level,
+    hints: (previous?.hints ?? 0) + 1,
+    updatedAt: Date.now(),
+  };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...log, [lessonKey]: usage }));
+  } catch {
+    // Hint history is a nice-to-have; the chat works without it.
+  }
+  return usage;
+};
@@ -0,0 +1,60 @@
+/** POSTs JSON and returns the response, turning HTTP and network failures into readable errors. */
+export const postJson = async (
+  provider: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal?: AbortSignal,
+): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new Error(`Couldn't reach ${provider} at ${url}. Check the address and that the server allows requests from this site.`);
+  }
+  if (!response.ok) {
+    throw new Error(`${provider} returned ${response.status}: ${await errorDetail(response)}`);
+  }
+  return response;
+};
+
+// Providers nest the message differently, e.g. `{ error: { message } }` or `{ error: "..." }`.
+const errorDetail = async (response: Response) => {
+  const text = await response.text().catch(() => '');
+  try {
+    const body = JSON.parse(text);
+    const error = body.error ?? body;
+    return typeof error === 'string' ? error : error.message ?? text;
+  } catch {
+    return text || response.statusText;
+  }
+};
+
+/** Calls `onLine` for each complete line of a streamed body, e.g. Ollama's newline-delimited JSON. */
+export const readLines = async (response: Response, onLine: (line: string) => void) => {
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop();
+    lines.forEach(onLine);
+  }
+  if (buffer) onLine(buffer);
+};
+
+/** Calls `onData` with the parsed JSON payload of each server-sent event, stopping at `[DONE]`. */
+export const readEvents = (response: Response, onData: (data: unknown) => void) =>
+  readLines(response, (line) => {
+    if (!line.startsWith('data:')) return;
+    const data = line.slice(5).trim();
+    if (data && data !== '[DONE]') onData(JSON.parse(data));
+  });
@@ -0,0 +1,39 @@
+import { createAnthropicProvider } from './providers/anthropic';
+import { createMockProvider } from './providers/mock';
+import { createOllamaProvider } from './providers/ollama';
+import { createOpenAIProvider } from './providers/openai';
+import type { AISettings, ChatProvider, ProviderKind } from './types';
+
+export * from './types';
+export * from './context';
+export * from './quick-actions';
+export * from './tutor';
+export * from './conversations';
+export * from './templates';
+export * from './commands';
+export * from './usage';
+export * from './transcript';
+export { getHintUsage, recordHint, type HintUsage } from './hint-log';
+export {
+  DEFAULT_AI_SETTINGS,
+  getAISettings,
+  getProviderInfo,
+  onAISettingsChange,
+  providers,
+  saveAISettings,
+  settingsFor,
+  type ProviderInfo,
+} from './settings';
+
+const factories: Record<ProviderKind, (settings: AISettings) => ChatProvider> = {
+  mock: createMockProvider,
+  openai: createOpenAIProvider,
+  anthropic: createAnthropicProvider,
+  ollama: createOllamaProvider,
+};
+
+export const createProvider = (settings: AISettings): ChatProvider => factories[settings.provider](settings);
+
+export const ASSISTANT_SYSTEM_PROMPT =
+  'You are a friendly programming tutor inside a code-learning app. Explain concepts clearly for beginners, ' +
+  'prefer short runnable examples, and when the learner shares broken code, help them find the problem rather than only handing over a fix.';
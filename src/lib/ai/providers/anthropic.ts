@@ -0,0 +1,52 @@
+import { postJson, readEvents } from '../http';
+import type { AISettings, ChatProvider } from '../types';
+
+const MAX_TOKENS = 2048;
+
+type AnthropicEvent =
+  | { type: 'message_start'; message: { usage: { input_tokens: number } } }
+  | { type: 'content_block_delta'; delta: { type: string; text?: string } }
+  | { type: 'message_delta'; usage: { output_tokens: number } }
+  | { type: 'error'; error: { message: string } }
+  | { type: 'ping' | 'content_block_start' | 'content_block_stop' | 'message_stop' };
+
+export const createAnthropicProvider = ({ baseUrl, model, apiKey }: AISettings): ChatProvider => ({
+  async stream({ messages, system, signal, onAccepted }, onText) {
+    const response = await postJson(
+      'Anthropic',
+      `${baseUrl}/v1/messages`,
+      // The Messages API takes the system prompt as its own field rather than as a message.
+      {
+        model,
+        max_tokens: MAX_TOKENS,
+        system,
+        messages: messages.filter((message) => message.role !== 'system'),
+        stream: true,
+      },
+      {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+        // Required for calls made straight from the browser with the learner's own key.
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      signal,
+    );
+    onAccepted?.();
+    let content = '';
+    const usage = { inputTokens: 0, outputTokens: 0 };
+    await readEvents(response, (data) => {
+      const event = data as AnthropicEvent;
+      if (event.type === 'message_start') {
+        usage.inputTokens = event.message.usage.input_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta.text) {
+        content += event.delta.text;
+        onText(event.delta.text);
+      } else if (event.type === 'message_delta') {
+        usage.outputTokens = event.usage.output_tokens;
+      } else if (event.type === 'error') {
+        throw new Error(`Anthropic stream failed: ${event.error.message}`);
+      }
+    });
+    return { content, usage };
+  },
+});
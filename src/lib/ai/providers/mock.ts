@@ -0,0 +1,76 @@
+import type { ChatMessage, ChatProvider } from '../types';
+
+const REPLY_DELAY_MS = 400;
+const WORD_DELAY_MS = 25;
+
+// Rough stand-in for a tokenizer so usage numbers move in a believable way.
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+const replies: { pattern: RegExp; reply: string }[] = [
+  {
+    pattern: /\b(error|bug|fail|broken|wrong|exception)/i,
+    reply:
+      "Let's debug it step by step. Read the error message from the bottom up: the last line says what went wrong and the line number says where. Then check the values going into that line — a quick `console.log` or `print` right before it usually shows the surprise.",
+  },
+  {
+    pattern: /\b(explain|what is|what does|how does)/i,
+    reply:
+      'Here is the short version: break the code into its inputs, what it does with them, and what it returns. If you paste the snippet you are looking at, I can walk through it line by line.',
+  },
+  {
+    pattern: /\b(test|tests|testing)\b/i,
+    reply:
+      'A good first test checks **one behaviour** with one concrete example: call the function with a known input and compare the result to what you expect.\n\n```js\nconsole.assert(add(2, 3) === 5, "add(2, 3) should be 5");\n```\n\nThen add an edge case, such as an empty list or zero.',
+  },
+];
+
+// Tutor-mode replies, one per hint level, so graduated hints can be tried offline.
+const hintReplies = [
+  'What do you expect this code to do, and which line is the first one where it does something else?',
+  'This is usually about how values flow through your code. Check what each variable holds right before the line that misbehaves.',
+  "Here's the shape of it:\n\n```js\nconst result = /* your code here */;\nconsole.log(result);\n```\n\nFill in the gap and run it.",
+  'Here is a full solution. Compare it with yours line by line and notice where they differ.',
+];
+
+const FALLBACK_REPLY =
+  "Good question! Try breaking the problem into smaller pieces and running each one on its own. Tell me which part you're stuck on and I'll go from there.";
+
+const lastUserMessage = (messages: ChatMessage[]) =>
+  [...messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    });
+  });
+
+/**
+ * Streams answers from a fixed table keyed on the learner's last message, so the same question always
+ * gets the same reply. Used in development and whenever no real provider is configured.
+ */
+export const createMockProvider = (): ChatProvider => ({
+  async stream({ messages, system = '', hintLevel, signal, onAccepted }, onText) {
+    await wait(REPLY_DELAY_MS, signal);
+    onAccepted?.();
+    const question = lastUserMessage(messages);
+    const content = hintLevel
+      ? hintReplies[hintLevel - 1]
+      : replies.find(({ pattern }) => pattern.test(question))?.reply ?? FALLBACK_REPLY;
+    // Word by word, keeping the spaces, so the chat exercises the same path as a real stream.
+    for (const word of content.match(/\S+\s*/g) ?? []) {
+      onText(word);
+      await wait(WORD_DELAY_MS, signal);
+    }
+    return {
+      content,
+      usage: {
+        inputTokens: countTokens(system) + messages.reduce((sum, message) => sum + countTokens(message.content), 0),
+        outputTokens: countTokens(content),
+      },
+    };
+  },
+});
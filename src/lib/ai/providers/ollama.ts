@@ -0,0 +1,37 @@
+import { postJson, readLines } from '../http';
+import type { AISettings, ChatProvider, TokenUsage } from '../types';
+
+interface OllamaChunk {
+  message?: { content: string };
+  done: boolean;
+  error?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+export const createOllamaProvider = ({ baseUrl, model }: AISettings): ChatProvider => ({
+  async stream({ messages, system, signal, onAccepted }, onText) {
+    const response = await postJson(
+      'Ollama',
+      `${baseUrl}/api/chat`,
+      { model, stream: true, messages: system ? [{ role: 'system', content: system }, ...messages] : messages },
+      {},
+      signal,
+    );
+    onAccepted?.();
+    let content = '';
+    let usage: TokenUsage | undefined;
+    // Ollama streams one JSON object per line rather than server-sent events.
+    await readLines(response, (line) => {
+      if (!line.trim()) return;
+      const chunk = JSON.parse(line) as OllamaChunk;
+      if (chunk.error) throw new Error(`Ollama stream failed: ${chunk.error}`);
+      if (chunk.message?.content) {
+        content += chunk.message.content;
+        onText(chunk.message.content);
+      }
+      if (chunk.done) usage = { inputTokens: chunk.prompt_eval_count ?? 0, outputTokens: chunk.eval_count ?? 0 };
+    });
+    return { content, usage };
+  },
+});
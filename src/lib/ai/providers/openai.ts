@@ -0,0 +1,38 @@
+import { postJson, readEvents } from '../http';
+import type { AISettings, ChatProvider, TokenUsage } from '../types';
+
+interface OpenAIChunk {
+  choices: { delta: { content?: string | null } }[];
+  usage?: { prompt_tokens: number; completion_tokens: number } | null;
+}
+
+export const createOpenAIProvider = ({ baseUrl, model, apiKey }: AISettings): ChatProvider => ({
+  async stream({ messages, system, signal, onAccepted }, onText) {
+    const response = await postJson(
+      'The OpenAI-compatible server',
+      `${baseUrl}/chat/completions`,
+      {
+        model,
+        messages: system ? [{ role: 'system', content: system }, ...messages] : messages,
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      signal,
+    );
+    onAccepted?.();
+    let content = '';
+    let usage: TokenUsage | undefined;
+    await readEvents(response, (data) => {
+      const chunk = data as OpenAIChunk;
+      const text = chunk.choices[0]?.delta.content;
+      if (text) {
+        content += text;
+        onText(text);
+      }
+      // Sent in a final chunk with no choices.
+      if (chunk.usage) usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+    });
+    return { content, usage };
+  },
+});
@@ -0,0 +1,60 @@
+import type { SourceRange } from '@/lib/project';
+
+export type QuickActionId = 'explain' | 'debug' | 'comment' | 'idiomatic' | 'tests';
+
+export interface QuickAction {
+  id: QuickActionId;
+  label: string;
+  /** The message sent on the learner's behalf; `subject` names the code, e.g. "lines 3–7 of main.js". */
+  prompt: (subject: string, language: string) => string;
+}
+
+export const quickActions: QuickAction[] = [
+  {
+    id: 'explain',
+    label: 'Explain this',
+    prompt: (subject) => `Explain ${subject} step by step. What does each part do, and why?`,
+  },
+  {
+    id: 'debug',
+    label: 'Why is this failing?',
+    prompt: (subject) =>
+      `Why is ${subject} failing or not doing what I expect? Use the output of my last run, point to the line that causes it and explain the fix.`,
+  },
+  {
+    id: 'comment',
+    label: 'Add comments',
+    prompt: (subject) =>
+      `Add helpful comments to ${subject}. Keep the code itself unchanged and reply with the commented version in one code block.`,
+  },
+  {
+    id: 'idiomatic',
+    label: 'Suggest a more idiomatic version',
+    prompt: (subject, language) =>
+      `Suggest a more idiomatic ${language} version of ${subject}, and explain what changed and why it's better.`,
+  },
+  {
+    id: 'tests',
+    label: 'Write tests for this',
+    prompt: (subject) =>
+      `Write tests for ${subject} that I can run in this editor without a test framework. Cover the normal case and a couple of edge cases.`,
+  },
+];
+
+const languageNames: Record<string, string> = {
+  javascript: 'JavaScript',
+  react: 'React',
+  python: 'Python',
+  database: 'SQL',
+};
+
+/** Display name for a topic id as used in prompts, e.g. `database` → `SQL`. */
+export const languageName = (language: string) => languageNames[language] ?? language;
+
+/** Words for the code an action applies to: the selection when there is one, otherwise the whole file. */
+export const describeSubject = (file: string, selection?: SourceRange | null) => {
+  if (!selection?.text || selection.file !== file) return `the code in ${file}`;
+  return selection.startLine === selection.endLine
+    ? `line ${selection.startLine} of ${file}`
+    : `lines ${selection.startLine}–${selection.endLine} of ${file}`;
+};
@@ -0,0 +1,89 @@
+import type { AISettings, ProviderKind } from './types';
+
+const STORAGE_KEY = 'ai-settings';
+
+export interface ProviderInfo {
+  id: ProviderKind;
+  name: string;
+  description: string;
+  defaultBaseUrl: string;
+  defaultModel: string;
+  needsApiKey: boolean;
+}
+
+export const providers: ProviderInfo[] = [
+  {
+    id: 'mock',
+    name: 'Offline demo',
+    description: 'Canned, deterministic replies. No network or API key needed.',
+    defaultBaseUrl: '',
+    defaultModel: 'mock',
+    needsApiKey: false,
+  },
+  {
+    id: 'openai',
+    name: 'OpenAI-compatible',
+    description: 'Any server implementing /chat/completions: OpenAI, OpenRouter, LM Studio, vLLM…',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    defaultModel: 'gpt-4o-mini',
+    needsApiKey: true,
+  },
+  {
+    id: 'anthropic',
+    name: 'Anthropic',
+    description: 'The Messages API at /v1/messages.',
+    defaultBaseUrl: 'https://api.anthropic.com',
+    defaultModel: 'claude-3-5-haiku-latest',
+    needsApiKey: true,
+  },
+  {
+    id: 'ollama',
+    name: 'Ollama',
+    description: 'A local Ollama server. Start it with OLLAMA_ORIGINS set to allow this site.',
+    defaultBaseUrl: 'http://localhost:11434',
+    defaultModel: 'llama3.2',
+    needsApiKey: false,
+  },
+];
+
+export const getProviderInfo = (id: ProviderKind) => providers.find((provider) => provider.id === id) ?? providers[0];
+
+/** Settings for a freshly picked provider, pre-filled with its usual endpoint and model. */
+export const settingsFor = (id: ProviderKind, apiKey = ''): AISettings => {
+  const info = getProviderInfo(id);
+  return { provider: info.id, baseUrl: info.defaultBaseUrl, model: info.defaultModel, apiKey };
+};
+
+// The offline provider keeps the chat usable in development and before anything is configured.
+export const DEFAULT_AI_SETTINGS = settingsFor('mock');
+
+const listeners = new Set<() => void>();
+let current: AISettings | null = null;
+
+export const getAISettings = (): AISettings => {
+  if (current) return current;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    current = stored && providers.some((p) => p.id === stored.provider) ? { ...DEFAULT_AI_SETTINGS, ...stored } : DEFAULT_AI_SETTINGS;
+  } catch {
+    current = DEFAULT_AI_SETTINGS;
+  }
+  return current;
+};
+
+export const saveAISettings = (settings: AISettings) => {
+  current = { ...settings, baseUrl: settings.baseUrl.trim().replace(/\/+$/, ''), model: settings.model.trim() };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+  } catch {
+    // Still applies for this session even if it can't be persisted.
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const onAISettingsChange = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,79 @@
+const STORAGE_KEY = 'prompt-templates';
+
+/** A learner-defined prompt, run as `/<name>` from the chat input. */
+export interface PromptTemplate {
+  id: string;
+  /** Command name without the slash, e.g. `big-o`. */
+  name: string;
+  description: string;
+  /** Prompt text; `{{selection}}`, `{{code}}`, `{{file}}`, `{{language}}` and `{{input}}` are filled in when it runs. */
+  body: string;
+}
+
+/** Values for `{{placeholders}}`; unknown placeholders are left as written. */
+export type TemplateVars = Record<string, string>;
+
+export const TEMPLATE_VARIABLES = ['selection', 'code', 'file', 'language', 'input'];
+
+const listeners = new Set<() => void>();
+let cache: PromptTemplate[] | null = null;
+
+export const listTemplates = (): PromptTemplate[] => {
+  if (cache) return cache;
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    cache = Array.isArray(stored) ? stored : [];
+  } catch {
+    cache = [];
+  }
+  return cache;
+};
+
+const write = (templates: PromptTemplate[]) => {
+  cache = templates;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch {
+    // Kept in memory for this session even if it can't be persisted.
+  }
+  listeners.forEach((listener) => listener());
+};
+
+/** Lower-case letters, digits and dashes, so a template can be typed after a slash. */
+export const normalizeCommandName = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/^\/+/, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/** Adds or updates a template. Throws when the name is empty or already taken. */
+export const saveTemplate = (template: PromptTemplate, reservedNames: string[] = []) => {
+  const name = normalizeCommandName(template.name);
+  if (!name) throw new Error('Give the template a name');
+  if (!template.body.trim()) throw new Error('The template needs some prompt text');
+  const others = listTemplates().filter((existing) => existing.id !== template.id);
+  if (reservedNames.includes(name) || others.some((existing) => existing.name === name)) {
+    throw new Error(`/${name} is already taken`);
+  }
+  const saved = { ...template, name };
+  const index = listTemplates().findIndex((existing) => existing.id === template.id);
+  write(index === -1 ? [...others, saved] : listTemplates().map((existing) => (existing.id === template.id ? saved : existing)));
+  return saved;
+};
+
+export const deleteTemplate = (id: string) => write(listTemplates().filter((template) => template.id !== id));
+
+// Only keys set on `vars` itself count, so `{{constructor}}` is left as typed rather than filled from Object.
+export const fillTemplate = (body: string, vars: TemplateVars) =>
+  body.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(vars, name) ? (vars[name] ?? placeholder) : placeholder,
+  );
+
+export const onTemplatesChange = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { conversationToJson, conversationToMarkdown, parseConversationJson } from './transcript';
+import type { Conversation } from './types';
+
+const conversation: Conversation = {
+  id: 'c1',
+  title: 'Loops',
+  group: 'javascript',
+  createdAt: Date.UTC(2024, 0, 1),
+  updatedAt: Date.UTC(2024, 0, 2),
+  messages: [
+    {
+      id: 'm1',
+      type: 'user',
+      content: 'Why does this loop forever?',
+      timestamp: new Date(Date.UTC(2024, 0, 1, 10)),
+      context: {
+        language: 'javascript',
+        project: { files: { 'main.js': 'let i = 0;\nwhile (i < 3) {\n}', 'util.js': '' }, entry: 'main.js' },
+        activeFile: 'main.js',
+        selection: { file: 'main.js', startLine: 2, endLine: 3, from: 11, to: 28, text: 'while (i < 3) {\n}' },
+        output: [{ level: 'error', text: 'Timed out', file: 'main.js', line: 2 }],
+      },
+    },
+    { id: 'm2', type: 'ai', content: 'Check where `i` changes.', timestamp: new Date(Date.UTC(2024, 0, 1, 10, 1)), hintLevel: 2 },
+  ],
+};
+
+// An exported file with the first message replaced by `message`.
+const exportWith = (message: Record<string, unknown>) => {
+  const exported = JSON.parse(conversationToJson(conversation));
+  exported.conversation.messages[0] = { ...exported.conversation.messages[0], ...message };
+  return JSON.stringify(exported);
+};
+
+describe('parseConversationJson', () => {
+  it('reads back what conversationToJson wrote', () => {
+    expect(parseConversationJson(conversationToJson(conversation))).toEqual(conversation);
+  });
+
+  it('rejects files that are not exported conversations', () => {
+    expect(() => parseConversationJson('not json')).toThrow('not valid JSON');
+    expect(() => parseConversationJson('{"format":"something-else"}')).toThrow('not an exported conversation');
+    const newer = JSON.parse(conversationToJson(conversation));
+    newer.version = 99;
+    expect(() => parseConversationJson(JSON.stringify(newer))).toThrow('newer version');
+  });
+
+  it('rejects messages without the required fields', () => {
+    expect(() => parseConversationJson(exportWith({ type: 'system' }))).toThrow('incomplete or damaged');
+    expect(() => parseConversationJson(exportWith({ timestamp: 'yesterday' }))).toThrow('incomplete or damaged');
+    expect(() => parseConversationJson(exportWith({ content: 42 }))).toThrow('incomplete or damaged');
+  });
+
+  it('drops hint levels outside 1 to 4', () => {
+    for (const hintLevel of [0, 7, 2.5, '2', null]) {
+      const [message] = parseConversationJson(exportWith({ hintLevel })).messages;
+      expect(message).not.toHaveProperty('hintLevel');
+    }
+    expect(parseConversationJson(exportWith({ hintLevel: 4 })).messages[0].hintLevel).toBe(4);
+  });
+
+  it('drops attached context that is badly shaped', () => {
+    const attached = conversation.messages[0].context;
+    for (const context of [
+      'main.js',
+      { language: 'javascript' },
+      { language: 'javascript', activeFile: 'main.js', selection: null, code: 'x', outputCount: 0 },
+      { ...attached, project: { files: { 'main.js': 1 } } },
+      { ...attached, selection: { startLine: 1 } },
+    ]) {
+      const [message] = parseConversationJson(exportWith({ context })).messages;
+      expect(message.context).toBeUndefined();
+    }
+  });
+
+  it('keeps attached output entries that are well formed, cut to what a question sends', () => {
+    const logs = Array.from({ length: 40 }, (_, n) => ({ level: 'log', text: String(n) }));
+    const output = [{ level: 'shout', text: 'x' }, { level: 'log' }, ...logs];
+    const context = { ...conversation.messages[0].context, output };
+    const [message] = parseConversationJson(exportWith({ context })).messages;
+    expect(message.context.output).toHaveLength(30);
+    expect(message.context.output[0]).toEqual({ level: 'log', text: '10' });
+  });
+
+  it('keeps only boolean flags and fills in missing conversation details', () => {
+    const exported = JSON.parse(exportWith({ error: 'yes', stopped: true }));
+    exported.conversation = { ...exported.conversation, id: '', title: ' ', group: 3, createdAt: 'never' };
+    const imported = parseConversationJson(JSON.stringify(exported));
+    expect(imported.messages[0]).not.toHaveProperty('error');
+    expect(imported.messages[0].stopped).toBe(true);
+    expect(imported).toMatchObject({ title: 'Imported chat', group: 'general' });
+    expect(imported.id).not.toBe('');
+    expect(Number.isNaN(imported.createdAt)).toBe(false);
+  });
+});
+
+describe('conversationToMarkdown', () => {
+  it('quotes the attached code with a fence its backticks cannot close', () => {
+    const withFence: Conversation = {
+      ...conversation,
+      messages: [
+        {
+          ...conversation.messages[0],
+          context: { ...conversation.messages[0].context, selection: { ...conversation.messages[0].context.selection, text: 'a ```b``` c' } },
+        },
+      ],
+    };
+    const markdown = conversationToMarkdown(withFence);
+    expect(markdown).toContain('> Attached: main.js, lines 2–3, 1 output line');
+    expect(markdown).toContain('````javascript\na ```b``` c\n````');
+  });
+});
@@ -0,0 +1,188 @@
+import { parseContext, type ChatContext } from './context';
+import { groupLabel } from './conversations';
+import { MAX_HINT_LEVEL } from './tutor';
+import type { Conversation, ConversationMessage } from './types';
+
+// Identifies exported files so unrelated JSON is rejected on import.
+const FORMAT = 'guided-code-ai/conversation';
+const VERSION = 1;
+
+type ExportedMessage = Omit<ConversationMessage, 'timestamp'> & { timestamp: string };
+
+interface ExportedConversation {
+  format: typeof FORMAT;
+  version: number;
+  exportedAt: string;
+  conversation: Omit<Conversation, 'createdAt' | 'updatedAt' | 'messages'> & {
+    createdAt: string;
+    updatedAt: string;
+    messages: ExportedMessage[];
+  };
+}
+
+const speaker = (message: ConversationMessage) => (message.type === 'user' ? 'You' : 'Assistant');
+
+const formatTime = (date: Date) => date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+const contextSummary = ({ activeFile, selection, output }: ChatContext) =>
+  [
+    activeFile,
+    selection?.text &&
+      (selection.startLine === selection.endLine ? `line ${selection.startLine}` : `lines ${selection.startLine}–${selection.endLine}`),
+    output.length > 0 && `${output.length} output line${output.length === 1 ? '' : 's'}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+// The code a message was about: the selection when there was one, otherwise the open file.
+const contextCode = ({ project, activeFile, selection }: ChatContext) => selection?.text || project.files[activeFile] || '';
+
+const messageNote = (message: ConversationMessage) =>
+  [message.hintLevel && `hint level ${message.hintLevel}`, message.stopped && 'stopped', message.error && 'error']
+    .filter(Boolean)
+    .join(', ');
+
+// Longer than any backtick run in the code, so the fence can't be closed early.
+const fenceFor = (code: string) => '`'.repeat(Math.max(3, ...(code.match(/`+/g) ?? []).map((run) => run.length + 1)));
+
+export const conversationFileName = (conversation: Conversation, extension: string) => {
+  const slug = conversation.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+  return `${slug || 'conversation'}.${extension}`;
+};
+
+export const conversationToMarkdown = (conversation: Conversation) => {
+  const lines = [
+    `# ${conversation.title}`,
+    '',
+    `_${groupLabel(conversation.group)} · ${formatTime(new Date(conversation.createdAt))}_`,
+  ];
+  for (const message of conversation.messages) {
+    const note = messageNote(message);
+    lines.push('', `## ${speaker(message)} · ${formatTime(message.timestamp)}${note ? ` (${note})` : ''}`, '');
+    if (message.context) {
+      const code = contextCode(message.context);
+      const fence = fenceFor(code);
+      lines.push(`> Attached: ${contextSummary(message.context)}`, '');
+      if (code) lines.push(`${fence}${message.context.language}`, code, fence, '');
+    }
+    lines.push(message.content);
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+export const conversationToJson = (conversation: Conversation) => {
+  const exported: ExportedConversation = {
+    format: FORMAT,
+    version: VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      ...conversation,
+      createdAt: new Date(conversation.createdAt).toISOString(),
+      updatedAt: new Date(conversation.updatedAt).toISOString(),
+      messages: conversation.messages.map((message) => ({ ...message, timestamp: message.timestamp.toISOString() })),
+    },
+  };
+  return JSON.stringify(exported, null, 2);
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Code fences become blocks; everything else keeps its line breaks. Enough for reading and printing.
+const contentToHtml = (content: string) =>
+  content
+    .split(/^```[^\n]*\n([\s\S]*?)^```[ \t]*$/m)
+    .map((part, index) => (index % 2 ? `<pre><code>${escapeHtml(part)}</code></pre>` : part.trim() && `<p>${escapeHtml(part.trim())}</p>`))
+    .join('');
+
+const PRINT_STYLES = `
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111; line-height: 1.5; }
+  header { border-bottom: 1px solid #ddd; margin-bottom: 1.5rem; }
+  .meta { color: #666; font-size: 0.875rem; }
+  article { margin-bottom: 1.5rem; break-inside: avoid; }
+  article h2 { font-size: 0.875rem; margin: 0 0 0.25rem; }
+  article.user h2 { color: #2563eb; }
+  p { white-space: pre-wrap; margin: 0.5rem 0; }
+  pre { background: #f4f4f5; padding: 0.75rem; border-radius: 0.375rem; overflow-x: auto; font-size: 0.8125rem; white-space: pre-wrap; }
+  .context { border-left: 3px solid #ddd; padding-left: 0.75rem; }
+`;
+
+/** A standalone page that reads and prints well without the app. */
+export const conversationToHtml = (conversation: Conversation) => {
+  const articles = conversation.messages.map((message) => {
+    const note = messageNote(message);
+    const context = message.context
+      ? `<div class="context"><p class="meta">Attached: ${escapeHtml(contextSummary(message.context))}</p>${
+          contextCode(message.context) ? `<pre><code>${escapeHtml(contextCode(message.context))}</code></pre>` : ''
+        }</div>`
+      : '';
+    return `<article class="${message.type}"><h2>${speaker(message)} <span class="meta">${escapeHtml(formatTime(message.timestamp))}${
+      note ? ` · ${note}` : ''
+    }</span></h2>${context}${contentToHtml(message.content)}</article>`;
+  });
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(conversation.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<header><h1>${escapeHtml(conversation.title)}</h1><p class="meta">${escapeHtml(groupLabel(conversation.group))} · ${escapeHtml(
+    formatTime(new Date(conversation.createdAt)),
+  )}</p></header>
+${articles.join('\n')}
+</body>
+</html>
+`;
+};
+
+const isMessage = (value: unknown): value is ExportedMessage => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { id, type, content, timestamp } = value as ExportedMessage;
+  return (
+    typeof id === 'string' &&
+    (type === 'user' || type === 'ai') &&
+    typeof content === 'string' &&
+    !Number.isNaN(new Date(timestamp).getTime())
+  );
+};
+
+const importedMessage = ({ id, type, content, timestamp, error, stopped, hintLevel, context }: ExportedMessage): ConversationMessage => ({
+  id,
+  type,
+  content,
+  timestamp: new Date(timestamp),
+  ...(error === true && { error }),
+  ...(stopped === true && { stopped }),
+  ...(Number.isInteger(hintLevel) && hintLevel >= 1 && hintLevel <= MAX_HINT_LEVEL && { hintLevel }),
+  ...(type === 'user' && { context: parseContext(context) }),
+});
+
+/** Reads a file written by `conversationToJson`; throws with a readable reason otherwise. */
+export const parseConversationJson = (text: string): Conversation => {
+  let parsed: ExportedConversation;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (parsed?.format !== FORMAT) throw new Error('This is not an exported conversation.');
+  if (parsed.version > VERSION) throw new Error('This conversation was exported by a newer version of the app.');
+
+  const { conversation } = parsed;
+  if (!conversation || !Array.isArray(conversation.messages) || !conversation.messages.every(isMessage)) {
+    throw new Error('The conversation in this file is incomplete or damaged.');
+  }
+  const messages = conversation.messages.map(importedMessage);
+  const createdAt = new Date(conversation.createdAt).getTime();
+  const updatedAt = new Date(conversation.updatedAt).getTime();
+  return {
+    id: typeof conversation.id === 'string' && conversation.id ? conversation.id : `${Date.now()}`,
+    title: typeof conversation.title === 'string' && conversation.title.trim() ? conversation.title : 'Imported chat',
+    group: typeof conversation.group === 'string' && conversation.group ? conversation.group : 'general',
+    createdAt: Number.isNaN(createdAt) ? Date.now() : createdAt,
+    updatedAt: Number.isNaN(updatedAt) ? Date.now() : updatedAt,
+    messages,
+  };
+};
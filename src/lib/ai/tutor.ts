@@ -0,0 +1,54 @@
+export type HintLevel = 1 | 2 | 3 | 4;
+
+export interface HintLevelInfo {
+  level: HintLevel;
+  name: string;
+  /** What the assistant may reveal at this level. */
+  instruction: string;
+}
+
+export const hintLevels: HintLevelInfo[] = [
+  {
+    level: 1,
+    name: 'Nudge',
+    instruction:
+      'Give a gentle nudge only: one or two guiding questions that point the learner toward where to look. No code, and do not name the fix.',
+  },
+  {
+    level: 2,
+    name: 'Concept pointer',
+    instruction:
+      'Name the concept, rule or language feature involved and explain it briefly in general terms, with at most a tiny example unrelated to their code. Do not apply it to their code for them.',
+  },
+  {
+    level: 3,
+    name: 'Partial code',
+    instruction:
+      'Show a partial solution: the outline or the key line(s), with the rest left as clearly marked gaps (e.g. `// your code here`) for the learner to fill in.',
+  },
+  {
+    level: 4,
+    name: 'Full solution',
+    instruction:
+      'Give the complete working solution, then explain why it works and what the learner could have noticed earlier.',
+  },
+];
+
+export const MAX_HINT_LEVEL: HintLevel = 4;
+
+export const getHintLevel = (level: HintLevel) => hintLevels[level - 1];
+
+/** Message sent on the learner's behalf when they ask for more help. */
+export const nextHintPrompt = (level: HintLevel) => `I'm still stuck. Can I have the next hint (${getHintLevel(level).name.toLowerCase()})?`;
+
+/** System prompt addition that holds the assistant to one hint level. */
+export const tutorPrompt = (level: HintLevel) =>
+  [
+    'Tutor mode is on: act as a Socratic tutor. The learner wants to work the answer out themselves, so help with graduated hints instead of handing over solutions.',
+    `Hints go through ${hintLevels.length} levels: ${hintLevels.map((info) => `${info.level}. ${info.name}`).join(', ')}. The learner asks for the next level when they want more help.`,
+    `You are at level ${level} (${getHintLevel(level).name}). ${getHintLevel(level).instruction}`,
+    'Never go beyond this level, even if asked for the answer directly; say they can ask for the next hint instead.',
+    level < MAX_HINT_LEVEL ? 'End by inviting the learner to try again.' : '',
+  ]
+    .filter(Boolean)
+    .join('\n');
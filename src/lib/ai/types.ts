@@ -0,0 +1,76 @@
+import type { ChatContext } from './context';
+import type { HintLevel } from './tutor';
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface ChatRequest {
+  /** Conversation so far, oldest first, ending with the learner's latest message. */
+  messages: ChatMessage[];
+  /** Instructions for the assistant; kept separate because providers place it differently. */
+  system?: string;
+  /** Tutor mode only: the hint level `system` was written for. Real providers only need the prompt. */
+  hintLevel?: HintLevel;
+  signal?: AbortSignal;
+  /** Called once the provider has accepted the request; usage is only recorded from then on. */
+  onAccepted?: () => void;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ChatCompletion {
+  content: string;
+  /** Reported by the provider when available. */
+  usage?: TokenUsage;
+}
+
+export interface ChatProvider {
+  /**
+   * Streams the reply, calling `onText` with each new piece as it arrives, and resolves with the
+   * whole reply once the provider is done. Rejects with an AbortError when `signal` fires.
+   */
+  stream(request: ChatRequest, onText: (text: string) => void): Promise<ChatCompletion>;
+}
+
+/** A message as shown in the chat and kept in conversation history. */
+export interface ConversationMessage {
+  id: string;
+  type: 'user' | 'ai';
+  content: string;
+  timestamp: Date;
+  /** Set when the provider failed; such messages aren't sent back as conversation history. */
+  error?: boolean;
+  /** The learner stopped the reply part way; `content` holds what had arrived. */
+  stopped?: boolean;
+  /** Tutor-mode replies only: how much the assistant was allowed to reveal. */
+  hintLevel?: HintLevel;
+  /** Questions only: the editor state that was sent along with it, as `limitContext` cut it. */
+  context?: ChatContext;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  /** Topic or lesson the conversation belongs to, e.g. `javascript`. */
+  group: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ConversationMessage[];
+}
+
+export type ProviderKind = 'mock' | 'openai' | 'anthropic' | 'ollama';
+
+export interface AISettings {
+  provider: ProviderKind;
+  /** Endpoint root without a trailing slash, e.g. `https://api.openai.com/v1`. */
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
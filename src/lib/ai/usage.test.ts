@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_USAGE_LIMITS, type UsageLimits } from './usage';
+
+// The log and the per-minute throttle live in module state, so each test gets a fresh copy.
+let usage: typeof import('./usage');
+
+beforeEach(async () => {
+  vi.resetModules();
+  usage = await import('./usage');
+});
+
+const NOW = new Date(2024, 4, 15, 12).getTime();
+const DAY = 86_400_000;
+
+const limits = (overrides: Partial<UsageLimits>): UsageLimits => ({
+  ...DEFAULT_USAGE_LIMITS,
+  dailyTokens: 0,
+  monthlyTokens: 0,
+  dailyRequests: 0,
+  monthlyRequests: 0,
+  requestsPerMinute: 0,
+  ...overrides,
+});
+
+describe('checkQuota', () => {
+  it('allows requests when nothing is limited', () => {
+    usage.recordUsage('javascript', 'model', { inputTokens: 1_000_000, outputTokens: 0 }, NOW);
+    expect(usage.checkQuota(NOW, limits({}))).toEqual({});
+  });
+
+  it("blocks once today's tokens reach the daily budget", () => {
+    usage.recordUsage('javascript', 'model', { inputTokens: 600, outputTokens: 300 }, NOW);
+    expect(usage.checkQuota(NOW, limits({ dailyTokens: 1000 }))).toEqual({});
+    usage.recordUsage('python', 'model', { inputTokens: 50, outputTokens: 50 }, NOW);
+    expect(usage.checkQuota(NOW, limits({ dailyTokens: 1000 })).blocked).toMatch(/today's AI budget of 1,000 tokens/);
+  });
+
+  it('resets the daily budget the next day but not the monthly one', () => {
+    usage.recordUsage('javascript', 'model', { inputTokens: 1000, outputTokens: 0 }, NOW - DAY);
+    expect(usage.checkQuota(NOW, limits({ dailyTokens: 1000 }))).toEqual({});
+    expect(usage.checkQuota(NOW, limits({ monthlyTokens: 1000 })).blocked).toMatch(/This month's AI budget/);
+  });
+
+  it('counts requests against the daily and monthly request limits', () => {
+    usage.recordUsage('javascript', 'model', { inputTokens: 1, outputTokens: 1 }, NOW - DAY);
+    usage.recordUsage('javascript', 'model', { inputTokens: 1, outputTokens: 1 }, NOW);
+    expect(usage.checkQuota(NOW, limits({ dailyRequests: 1 })).blocked).toMatch(/today's limit of 1 AI requests/);
+    expect(usage.checkQuota(NOW, limits({ dailyRequests: 2, monthlyRequests: 2 })).blocked).toMatch(/this month's limit/);
+  });
+
+  it('throttles bursts and says how long to wait', () => {
+    const quota = limits({ requestsPerMinute: 2 });
+    usage.noteRequest(NOW);
+    usage.noteRequest(NOW + 1000);
+    expect(usage.checkQuota(NOW + 20_000, quota).blocked).toMatch(/wait 40 seconds/);
+    expect(usage.checkQuota(NOW + 60_000, quota)).toEqual({});
+  });
+});
+
+describe('aggregateUsage', () => {
+  it('totals per topic, busiest first', () => {
+    usage.recordUsage('javascript', 'a', { inputTokens: 10, outputTokens: 10 }, NOW);
+    usage.recordUsage('python', 'a', { inputTokens: 100, outputTokens: 0 }, NOW);
+    usage.recordUsage('javascript', 'b', { inputTokens: 5, outputTokens: 0 }, NOW - DAY);
+    expect(usage.aggregateUsage('group')).toEqual([
+      { key: 'python', requests: 1, inputTokens: 100, outputTokens: 0 },
+      { key: 'javascript', requests: 2, inputTokens: 15, outputTokens: 10 },
+    ]);
+  });
+});
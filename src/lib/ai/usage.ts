@@ -0,0 +1,219 @@
+import type { TokenUsage } from './types';
+
+const LOG_KEY = 'ai-usage';
+// Older days are dropped from the log, keeping this month and last for the report.
+const KEEP_DAYS = 62;
+
+/**
+ * Quotas and prices set by whoever pays for the model; 0 means no limit. They are fixed when the app
+ * is built, from `VITE_AI_*` environment variables, so learners can see them but not change them.
+ */
+export interface UsageLimits {
+  dailyTokens: number;
+  monthlyTokens: number;
+  dailyRequests: number;
+  monthlyRequests: number;
+  /** Short-term throttle, to stop runaway clicking or scripts. */
+  requestsPerMinute: number;
+  /** USD per million tokens, for the cost estimate in the report. */
+  inputPricePerMillion: number;
+  outputPricePerMillion: number;
+}
+
+export const DEFAULT_USAGE_LIMITS: UsageLimits = {
+  dailyTokens: 200_000,
+  monthlyTokens: 3_000_000,
+  dailyRequests: 200,
+  monthlyRequests: 3000,
+  requestsPerMinute: 10,
+  inputPricePerMillion: 0,
+  outputPricePerMillion: 0,
+};
+
+const limitVariables: Record<keyof UsageLimits, string> = {
+  dailyTokens: 'VITE_AI_DAILY_TOKENS',
+  monthlyTokens: 'VITE_AI_MONTHLY_TOKENS',
+  dailyRequests: 'VITE_AI_DAILY_REQUESTS',
+  monthlyRequests: 'VITE_AI_MONTHLY_REQUESTS',
+  requestsPerMinute: 'VITE_AI_REQUESTS_PER_MINUTE',
+  inputPricePerMillion: 'VITE_AI_INPUT_PRICE_PER_MILLION',
+  outputPricePerMillion: 'VITE_AI_OUTPUT_PRICE_PER_MILLION',
+};
+
+/** Usage for one day, topic and model. */
+export interface UsageRecord {
+  /** Local date, `YYYY-MM-DD`. */
+  day: string;
+  group: string;
+  model: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  tokens: number;
+}
+
+export interface UsageSummary {
+  today: UsageTotals;
+  month: UsageTotals;
+}
+
+export type QuotaCheck = { blocked?: undefined } | { blocked: string };
+
+const listeners = new Set<() => void>();
+let log: UsageRecord[] | null = null;
+// Start times of recent requests, for the per-minute throttle. Not persisted: a reload resets it.
+let recentRequests: number[] = [];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+export const dayOf = (time: number) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const getUsageLog = (): UsageRecord[] => {
+  if (log) return log;
+  try {
+    const stored = JSON.parse(localStorage.getItem(LOG_KEY) ?? '[]');
+    log = Array.isArray(stored) ? stored : [];
+  } catch {
+    log = [];
+  }
+  return log;
+};
+
+// Unset, empty or invalid variables fall back to the default for that limit.
+const configuredLimit = (key: keyof UsageLimits) => {
+  const raw: unknown = import.meta.env[limitVariables[key]];
+  const value = Number(raw);
+  return typeof raw === 'string' && raw.trim() !== '' && value >= 0 ? value : DEFAULT_USAGE_LIMITS[key];
+};
+
+const limits: UsageLimits = { ...DEFAULT_USAGE_LIMITS };
+for (const key of Object.keys(limits) as (keyof UsageLimits)[]) limits[key] = configuredLimit(key);
+
+export const getUsageLimits = (): UsageLimits => limits;
+
+/** Rough token count for when a provider doesn't report usage, e.g. for a stopped reply. */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const recordUsage = (group: string, model: string, usage: TokenUsage, now = Date.now()) => {
+  const day = dayOf(now);
+  const oldest = dayOf(now - KEEP_DAYS * 86_400_000);
+  const records = getUsageLog().filter((record) => record.day >= oldest);
+  const existing = records.find((record) => record.day === day && record.group === group && record.model === model);
+  const updated: UsageRecord = {
+    day,
+    group,
+    model,
+    requests: (existing?.requests ?? 0) + 1,
+    inputTokens: (existing?.inputTokens ?? 0) + usage.inputTokens,
+    outputTokens: (existing?.outputTokens ?? 0) + usage.outputTokens,
+  };
+  log = existing ? records.map((record) => (record === existing ? updated : record)) : [...records, updated];
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  } catch {
+    // Kept in memory for this session even if it can't be persisted.
+  }
+  notify();
+};
+
+export const totalUsage = (records: UsageRecord[]): UsageTotals => ({
+  requests: records.reduce((sum, record) => sum + record.requests, 0),
+  tokens: records.reduce((sum, record) => sum + record.inputTokens + record.outputTokens, 0),
+});
+
+export const getUsageSummary = (now = Date.now()): UsageSummary => {
+  const today = dayOf(now);
+  const month = today.slice(0, 7);
+  return {
+    today: totalUsage(getUsageLog().filter((record) => record.day === today)),
+    month: totalUsage(getUsageLog().filter((record) => record.day.startsWith(month))),
+  };
+};
+
+const formatCount = (value: number) => value.toLocaleString();
+
+/**
+ * Decides whether another request may be sent now. Call `noteRequest` once it actually goes out
+ * so the per-minute throttle counts it.
+ */
+export const checkQuota = (now = Date.now(), quota = getUsageLimits()): QuotaCheck => {
+  const { today, month } = getUsageSummary(now);
+  if (quota.dailyTokens && today.tokens >= quota.dailyTokens) {
+    return { blocked: `You've used today's AI budget of ${formatCount(quota.dailyTokens)} tokens. It resets at midnight.` };
+  }
+  if (quota.dailyRequests && today.requests >= quota.dailyRequests) {
+    return { blocked: `You've reached today's limit of ${formatCount(quota.dailyRequests)} AI requests. It resets at midnight.` };
+  }
+  if (quota.monthlyTokens && month.tokens >= quota.monthlyTokens) {
+    return { blocked: `This month's AI budget of ${formatCount(quota.monthlyTokens)} tokens is used up. It resets on the 1st.` };
+  }
+  if (quota.monthlyRequests && month.requests >= quota.monthlyRequests) {
+    return { blocked: `You've reached this month's limit of ${formatCount(quota.monthlyRequests)} AI requests. It resets on the 1st.` };
+  }
+  recentRequests = recentRequests.filter((time) => now - time < 60_000);
+  if (quota.requestsPerMinute && recentRequests.length >= quota.requestsPerMinute) {
+    const wait = Math.ceil((recentRequests[0] + 60_000 - now) / 1000);
+    return { blocked: `That's a lot of questions in a row. Please wait ${wait} second${wait === 1 ? '' : 's'} and try again.` };
+  }
+  return {};
+};
+
+export const noteRequest = (now = Date.now()) => {
+  recentRequests.push(now);
+};
+
+export interface UsageRow {
+  /** The day or topic the row totals. */
+  key: string;
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** Totals the log per day or per topic, newest day or busiest topic first. */
+export const aggregateUsage = (by: 'day' | 'group', records = getUsageLog()): UsageRow[] => {
+  const rows = new Map<string, UsageRow>();
+  for (const record of records) {
+    const key = record[by];
+    const row = rows.get(key) ?? { key, requests: 0, inputTokens: 0, outputTokens: 0 };
+    rows.set(key, {
+      key,
+      requests: row.requests + record.requests,
+      inputTokens: row.inputTokens + record.inputTokens,
+      outputTokens: row.outputTokens + record.outputTokens,
+    });
+  }
+  return [...rows.values()].sort((a, b) =>
+    by === 'day' ? b.key.localeCompare(a.key) : b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens),
+  );
+};
+
+export const estimateCost = (record: Pick<UsageRecord, 'inputTokens' | 'outputTokens'>, quota = getUsageLimits()) =>
+  (record.inputTokens * quota.inputPricePerMillion + record.outputTokens * quota.outputPricePerMillion) / 1_000_000;
+
+/** The usage log as CSV, one row per day, topic and model, oldest first. */
+export const usageCsv = (records = getUsageLog()) => {
+  const rows = [...records]
+    .sort((a, b) => a.day.localeCompare(b.day) || a.group.localeCompare(b.group))
+    .map((record) =>
+      [record.day, record.group, record.model, record.requests, record.inputTokens, record.outputTokens, estimateCost(record).toFixed(4)]
+        .map((value) => (/[",\n]/.test(String(value)) ? `"${String(value).replace(/"/g, '""')}"` : value))
+        .join(','),
+    );
+  return ['day,topic,model,requests,input_tokens,output_tokens,estimated_cost_usd', ...rows].join('\n');
+};
+
+export const onUsageChange = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1 @@
+-- Write your query here
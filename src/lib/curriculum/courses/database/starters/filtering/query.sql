@@ -0,0 +1,6 @@
+-- Filtering and Patterns
+SELECT first_name, last_name, title, salary
+FROM employees
+WHERE salary > 70000
+  AND (title LIKE '%Designer%' OR department_id IN (1, 3))
+ORDER BY salary DESC;
@@ -0,0 +1,14 @@
+-- SQL Basics
+-- Average salary per department, highest first
+SELECT d.name AS department,
+       COUNT(e.id) AS headcount,
+       ROUND(AVG(e.salary)) AS avg_salary
+FROM departments d
+LEFT JOIN employees e ON e.department_id = d.id
+GROUP BY d.id
+ORDER BY avg_salary DESC;
+
+-- Try it out: who reports to Ada?
+SELECT first_name, last_name, title
+FROM employees
+WHERE manager_id = 1;
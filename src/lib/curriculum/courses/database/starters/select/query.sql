@@ -0,0 +1,6 @@
+-- Selecting Data
+SELECT first_name, last_name, title
+FROM employees
+ORDER BY last_name;
+
+-- Try it: only show employees hired after 2020
@@ -0,0 +1,7 @@
+-- Subqueries
+-- Employees who work in Berlin, found without a join
+SELECT first_name, last_name
+FROM employees
+WHERE department_id IN (
+  SELECT id FROM departments WHERE location = 'Berlin'
+);
@@ -0,0 +1,8 @@
+function cartTotal(items) {
+  // Your code here
+}
+
+console.log(cartTotal([
+  { name: "Pen", price: 1.5, quantity: 4 },
+  { name: "Notebook", price: 3, quantity: 2 },
+])); // 12
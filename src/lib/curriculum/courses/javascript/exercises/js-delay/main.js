@@ -0,0 +1,5 @@
+function delay(ms, value) {
+  // Your code here
+}
+
+delay(200, "done").then(console.log);
@@ -0,0 +1,7 @@
+function fizzBuzz(n) {
+  // Your code here
+}
+
+for (let i = 1; i <= 15; i++) {
+  console.log(fizzBuzz(i));
+}
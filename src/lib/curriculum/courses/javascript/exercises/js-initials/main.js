@@ -0,0 +1,5 @@
+function initials(fullName) {
+  // Your code here
+}
+
+console.log(initials("ada lovelace")); // "AL"
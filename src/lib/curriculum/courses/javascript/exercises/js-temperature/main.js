@@ -0,0 +1,5 @@
+function celsiusToFahrenheit(celsius) {
+  // Your code here
+}
+
+console.log(celsiusToFahrenheit(100)); // 212
@@ -0,0 +1,15 @@
+// Async Programming
+const fetchUser = (id) =>
+  new Promise((resolve) => setTimeout(() => resolve({ id, name: `User ${id}` }), 300));
+
+async function main() {
+  console.log("Loading...");
+  const user = await fetchUser(1);
+  console.log("Loaded", user.name);
+
+  // Both requests run at the same time.
+  const [a, b] = await Promise.all([fetchUser(2), fetchUser(3)]);
+  console.log(a.name, b.name);
+}
+
+main();
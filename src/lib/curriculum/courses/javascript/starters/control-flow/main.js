@@ -0,0 +1,14 @@
+// Control Flow
+const scores = [42, 87, 65, 99, 73];
+
+for (const score of scores) {
+  if (score >= 90) {
+    console.log(score, "Excellent");
+  } else if (score >= 70) {
+    console.log(score, "Good");
+  } else {
+    console.log(score, "Keep practising");
+  }
+}
+
+// Try it: count how many scores are 70 or above with a while loop.
@@ -0,0 +1,10 @@
+// JavaScript Fundamentals
+function greetUser(name) {
+  return `Hello, ${name}! Welcome to CodeLearner AI.`;
+}
+
+// Example usage
+const userName = "Developer";
+console.log(greetUser(userName));
+
+// Try modifying this code!
@@ -0,0 +1,14 @@
+// Objects and Arrays
+const books = [
+  { title: "Eloquent JavaScript", pages: 472, read: true },
+  { title: "You Don't Know JS", pages: 278, read: false },
+  { title: "JavaScript: The Good Parts", pages: 176, read: true },
+];
+
+const titles = books.map((book) => book.title);
+const unread = books.filter((book) => !book.read);
+const totalPages = books.reduce((sum, book) => sum + book.pages, 0);
+
+console.log(titles);
+console.log("Unread:", unread.length);
+console.log("Total pages:", totalPages);
@@ -0,0 +1,12 @@
+// Variables and Data Types
+const language = "JavaScript"; // a string that never changes
+let lessonsDone = 0;            // a number we'll update
+
+lessonsDone = lessonsDone + 1;
+const isLearning = true;        // a boolean
+
+console.log(language, typeof language);
+console.log("Lessons done:", lessonsDone, typeof lessonsDone);
+console.log("Still learning?", isLearning, typeof isLearning);
+
+// Try it: what does typeof return for null, undefined and [1, 2]?
@@ -0,0 +1,5 @@
+def fibonacci(n):
+    # Your code here
+    pass
+
+print(fibonacci(7))  # [0, 1, 1, 2, 3, 5, 8]
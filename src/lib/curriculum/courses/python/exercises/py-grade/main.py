@@ -0,0 +1,5 @@
+def letter_grade(score):
+    # Your code here
+    pass
+
+print(letter_grade(85))  # B
@@ -0,0 +1,5 @@
+def word_counts(text):
+    # Your code here
+    pass
+
+print(word_counts("the cat and the hat"))
@@ -0,0 +1,12 @@
+# Lists and Dictionaries
+fruits = ["apple", "banana", "cherry"]
+fruits.append("date")
+print(fruits, len(fruits))
+
+prices = {"apple": 0.5, "banana": 0.25}
+prices["cherry"] = 3.0
+
+for fruit, price in prices.items():
+    print(f"{fruit}: ${price:.2f}")
+
+print("Cheapest:", min(prices, key=prices.get))
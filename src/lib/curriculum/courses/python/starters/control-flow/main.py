@@ -0,0 +1,15 @@
+# Conditions and Loops
+temperatures = [12, 25, 31, 8, 19]
+
+for temp in temperatures:
+    if temp >= 30:
+        print(temp, "hot")
+    elif temp >= 15:
+        print(temp, "mild")
+    else:
+        print(temp, "cold")
+
+count = 0
+while count < 3:
+    count += 1
+    print("Lap", count)
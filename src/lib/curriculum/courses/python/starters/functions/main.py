@@ -0,0 +1,15 @@
+# Python Basics
+def calculate_fibonacci(n):
+    """Calculate Fibonacci sequence up to n terms"""
+    sequence = []
+    a, b = 0, 1
+    
+    for i in range(n):
+        sequence.append(a)
+        a, b = b, a + b
+    
+    return sequence
+
+# Try it out
+result = calculate_fibonacci(10)
+print(f"Fibonacci sequence: {result}")
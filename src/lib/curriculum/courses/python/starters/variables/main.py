@@ -0,0 +1,11 @@
+# Variables and Types
+name = "Python"
+version = 3.12
+is_fun = True
+
+print(name, type(name))
+print(version, type(version))
+print(is_fun, type(is_fun))
+
+# f-strings put values inside text
+print(f"{name} {version} is fun: {is_fun}")
@@ -0,0 +1,13 @@
+function Badge({ label, active }) {
+  // Your code here
+  return null;
+}
+
+export default function App() {
+  return (
+    <div>
+      <Badge label="Online" active={true} />
+      <Badge label="Offline" active={false} />
+    </div>
+  );
+}
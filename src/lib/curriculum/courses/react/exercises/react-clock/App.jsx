@@ -0,0 +1,7 @@
+import { useEffect, useState } from 'react';
+
+export default function App() {
+  // Your code here
+
+  return <p>The time is ...</p>;
+}
@@ -0,0 +1,16 @@
+import { useState } from 'react';
+
+export default function App() {
+  const [todos, setTodos] = useState(["Learn JSX"]);
+
+  return (
+    <div>
+      {/* Add an input and a button here */}
+      <ul>
+        {todos.map((todo) => (
+          <li key={todo}>{todo}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
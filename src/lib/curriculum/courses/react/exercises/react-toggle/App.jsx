@@ -0,0 +1,11 @@
+import { useState } from 'react';
+
+export default function App() {
+  // Your code here
+
+  return (
+    <div>
+      <p>The secret message is: React is fun!</p>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+// Effects
+import { useEffect, useState } from 'react';
+
+export default function App() {
+  const [seconds, setSeconds] = useState(0);
+
+  useEffect(() => {
+    const timer = setInterval(() => setSeconds((s) => s + 1), 1000);
+    // Cleanup runs when the component unmounts.
+    return () => clearInterval(timer);
+  }, []);
+
+  return <p>You've been here for {seconds} seconds.</p>;
+}
@@ -0,0 +1,14 @@
+// Components and JSX
+function Greeting({ name }) {
+  return <p>Hello, {name}!</p>;
+}
+
+export default function App() {
+  return (
+    <div>
+      <h1>My first components</h1>
+      <Greeting name="Ada" />
+      <Greeting name="Grace" />
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+// Lists and Keys
+const languages = [
+  { id: 1, name: "JavaScript", year: 1995 },
+  { id: 2, name: "Python", year: 1991 },
+  { id: 3, name: "SQL", year: 1974 },
+];
+
+export default function App() {
+  return (
+    <ul>
+      {languages.map((language) => (
+        <li key={language.id}>
+          {language.name} ({language.year})
+        </li>
+      ))}
+    </ul>
+  );
+}
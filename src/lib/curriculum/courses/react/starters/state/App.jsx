@@ -0,0 +1,18 @@
+// React Component Example
+import React, { useState } from 'react';
+import './App.css';
+
+function Counter() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <div className="counter">
+      <h2>Count: {count}</h2>
+      <button onClick={() => setCount(count + 1)}>
+        Increment
+      </button>
+    </div>
+  );
+}
+
+export default Counter;
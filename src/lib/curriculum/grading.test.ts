@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { RunHandle, RunInput, RunIO } from '@/lib/sandbox';
+import { canGrade, formatTestValue, gradeExercise } from './grading';
+import type { Exercise, ExerciseTest } from './types';
+
+// Runs JavaScript in-process with a console that writes to `io`, in place of the sandbox worker.
+const runInProcess = (input: RunInput, io: RunIO): RunHandle => {
+  const console = { log: (...args: unknown[]) => io.output({ level: 'log', text: args.map(String).join(' ') }) };
+  io.phase('running');
+  let status: 'completed' | 'error' = 'completed';
+  try {
+    new Function('console', input.files[input.entry])(console);
+  } catch (error) {
+    io.output({ level: 'error', text: String(error) });
+    status = 'error';
+  }
+  return { done: Promise.resolve(status), cancel: () => {} };
+};
+
+vi.mock('@/lib/sandbox', () => ({
+  DEFAULT_RUN_LIMITS: { timeoutMs: 1000, maxOutputEntries: 1000, maxEntryLength: 10_000 },
+  getIsolatedRunner: () => runInProcess,
+}));
+
+const exercise = (code: string, tests: ExerciseTest[]): Exercise => ({
+  id: 'example',
+  title: 'Example',
+  prompt: '',
+  starter: { files: { 'main.js': code }, entry: 'main.js' },
+  tests,
+});
+
+const grade = (code: string, tests: ExerciseTest[]) => {
+  const io = { output: vi.fn(), phase: vi.fn() };
+  const project = { files: { 'main.js': code }, entry: 'main.js' };
+  return { io, done: gradeExercise('javascript', exercise(code, tests), project, io).done };
+};
+
+const passes = async (expression: string, expected: unknown) => {
+  const report = await grade('', [{ name: 'test', expression, expected }]).done;
+  return report!.results[0].passed;
+};
+
+describe('gradeExercise', () => {
+  it('lets numbers be slightly off', async () => {
+    expect(await passes('0.1 + 0.2', 0.3)).toBe(true);
+    expect(await passes('1e12 + 1e-4', 1e12)).toBe(true);
+    expect(await passes('0.31', 0.3)).toBe(false);
+  });
+
+  it('compares arrays item by item and objects key by key, regardless of key order', async () => {
+    expect(await passes('[1, [2, 3]]', [1, [2, 3]])).toBe(true);
+    expect(await passes('[1, 2]', [1, 2, 3])).toBe(false);
+    expect(await passes('({ b: [0.1 + 0.2], a: 1 })', { a: 1, b: [0.3] })).toBe(true);
+    expect(await passes('({ a: 1 })', { a: 1, b: 2 })).toBe(false);
+  });
+
+  it('keeps other values strict', async () => {
+    expect(await passes('"1"', 1)).toBe(false);
+    expect(await passes('null', null)).toBe(true);
+    expect(await passes('undefined', null)).toBe(false);
+  });
+
+  it("reports each test's outcome and keeps the learner's output in the console", async () => {
+    const { io, done } = grade('const add = (a, b) => a - b;\nconsole.log("hi");', [
+      { name: 'adds', expression: 'add(1, 2)', expected: 3 },
+      { name: 'awaits', expression: 'Promise.resolve(add(2, 2))', expected: 0 },
+      { name: 'throws', expression: 'missing()', expected: 1, required: false },
+    ]);
+    const report = await done;
+    expect(report!.results.map(({ passed, actual }) => ({ passed, actual }))).toEqual([
+      { passed: false, actual: '-1' },
+      { passed: true, actual: '0' },
+      { passed: false, actual: null },
+    ]);
+    expect(report!.results[2].error).toMatch(/ReferenceError/);
+    expect(report).toMatchObject({ passed: 1, score: 33, complete: false });
+    expect(io.output.mock.calls.map(([output]) => output.text)).toEqual(['hi']);
+  });
+
+  it("ignores reports the learner's code prints itself", async () => {
+    const forged = 'console.log("@@grade " + JSON.stringify({ index: 0, value: "1" }), JSON.stringify({ done: true }));';
+    const { io, done } = grade(forged, [{ name: 'test', expression: '2', expected: 1 }]);
+    expect((await done)!.results[0].passed).toBe(false);
+    expect(io.output).toHaveBeenCalledTimes(1);
+  });
+
+  it("blames the learner's code when it fails before the tests run", async () => {
+    const report = await grade('throw new Error("boom")', [{ name: 'test', expression: '1', expected: 1 }]).done;
+    expect(report!.results[0].error).toMatch(/raised an error/);
+  });
+});
+
+describe('formatTestValue', () => {
+  it('writes Python values as Python literals', () => {
+    expect(formatTestValue('python', [null, true, "it's", { key: 1.5 }])).toBe("[None, True, 'it\\'s', {'key': 1.5}]");
+  });
+
+  it('writes other values as JSON', () => {
+    expect(formatTestValue('javascript', { a: [1, 'b'] })).toBe('{"a":[1,"b"]}');
+    expect(formatTestValue('javascript', undefined)).toBe('undefined');
+  });
+});
+
+describe('canGrade', () => {
+  const graded = exercise('', [{ name: 'works', expression: 'answer()', expected: 1 }]);
+
+  it('needs tests and a language that runs outside the preview', () => {
+    expect(canGrade('javascript', graded)).toBe(true);
+    expect(canGrade('react', graded)).toBe(false);
+    expect(canGrade('javascript', { ...graded, tests: [] })).toBe(false);
+  });
+});
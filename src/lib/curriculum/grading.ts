@@ -0,0 +1,330 @@
+import {
+  DEFAULT_RUN_LIMITS,
+  getIsolatedRunner,
+  type CellValue,
+  type ConsoleOutput,
+  type ResultTable,
+  type RunHandle,
+  type RunIO,
+  type RunInput,
+  type RunLimits,
+  type RunStatus,
+} from '@/lib/sandbox';
+import type { Project } from '@/lib/project';
+import type { Exercise, ExerciseTest } from './types';
+
+// The harness prints each outcome on a line of its own with this prefix; those lines are
+// picked out of the output rather than shown in the console. The prefix is new for every
+// submission, so the learner's code can't print passing reports of its own.
+const reportPrefix = () => {
+  const nonce = Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `@@grade-${nonce} `;
+};
+
+export interface TestResult {
+  name: string;
+  hidden: boolean;
+  required: boolean;
+  passed: boolean;
+  /** The expected and actual values as the learner would write them. */
+  expected: string;
+  /** Null when the test couldn't produce a value; `error` says why. */
+  actual: string | null;
+  error?: string;
+}
+
+export interface GradeReport {
+  results: TestResult[];
+  passed: number;
+  /** Share of tests passed, from 0 to 100. */
+  score: number;
+  /** Every required test passed. */
+  complete: boolean;
+}
+
+export interface GradeHandle {
+  /** Resolves with the report, or null when grading was cancelled. */
+  done: Promise<GradeReport | null>;
+  cancel: () => void;
+}
+
+type Outcome = { value?: unknown; display?: string; error?: string };
+
+type Report = { index: number; value?: string; display?: string; error?: string } | { done: true };
+
+const gradedTopics = ['javascript', 'python', 'database'];
+
+/** Whether Submit can check this exercise: it has tests and its language runs outside the preview. */
+export const canGrade = (topic: string, exercise: Exercise) => exercise.tests.length > 0 && gradedTopics.includes(topic);
+
+const isRequired = (test: ExerciseTest) => test.required !== false;
+
+// Numbers only need to be close, so 0.1 + 0.2 passes for 0.3.
+const sameValue = (actual: unknown, expected: unknown): boolean => {
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    return Math.abs(actual - expected) <= 1e-9 * Math.max(1, Math.abs(actual), Math.abs(expected));
+  }
+  if (Array.isArray(actual) || Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      Array.isArray(expected) &&
+      actual.length === expected.length &&
+      actual.every((item, index) => sameValue(item, expected[index]))
+    );
+  }
+  if (actual && expected && typeof actual === 'object' && typeof expected === 'object') {
+    const keys = Object.keys(expected);
+    return (
+      Object.keys(actual).length === keys.length &&
+      keys.every((key) => key in actual && sameValue((actual as Record<string, unknown>)[key], (expected as Record<string, unknown>)[key]))
+    );
+  }
+  return actual === expected;
+};
+
+// Python learners expect `None` and `'B'`, not `null` and `"B"`.
+const pythonLiteral = (value: unknown): string => {
+  if (value === null || value === undefined) return 'None';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (typeof value === 'string') return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  if (Array.isArray(value)) return `[${value.map(pythonLiteral).join(', ')}]`;
+  if (typeof value === 'object') {
+    return `{${Object.entries(value).map(([key, item]) => `${pythonLiteral(key)}: ${pythonLiteral(item)}`).join(', ')}}`;
+  }
+  return String(value);
+};
+
+/** A test value written the way the topic's language would write it. */
+export const formatTestValue = (topic: string, value: unknown) =>
+  topic === 'python' ? pythonLiteral(value) : (JSON.stringify(value) ?? String(value));
+
+const javascriptHarness = (tests: ExerciseTest[], prefix: string) => `
+;(async () => {
+  const __report = (result) => console.log(${JSON.stringify(prefix)} + JSON.stringify(result));
+  const __tests = [${tests.map((test) => `() => (${test.expression})`).join(', ')}];
+  for (let index = 0; index < __tests.length; index++) {
+    try {
+      const actual = await __tests[index]();
+      __report({ index, value: actual === undefined ? undefined : JSON.stringify(actual), display: JSON.stringify(actual) ?? String(actual) });
+    } catch (error) {
+      __report({ index, error: error instanceof Error ? error.name + ': ' + error.message : String(error) });
+    }
+  }
+  __report({ done: true });
+})();
+void 0;
+`;
+
+const pythonHarness = (tests: ExerciseTest[], prefix: string) => `
+
+
+def __grade():
+    import json
+    tests = [${tests.map((test) => `lambda: (${test.expression})`).join(', ')}]
+    for index, test in enumerate(tests):
+        try:
+            actual = test()
+            result = {"index": index, "display": repr(actual)}
+            try:
+                result["value"] = json.dumps(actual, default=repr, allow_nan=False)
+            except ValueError:
+                pass  # nan and inf have no JSON form, so they can't match an expected value
+        except Exception as error:
+            result = {"index": index, "error": f"{type(error).__name__}: {error}"}
+        print(${JSON.stringify(prefix)} + json.dumps(result))
+    print(${JSON.stringify(prefix)} + json.dumps({"done": True}))
+
+__grade()
+`;
+
+const sqlLiteral = (value: CellValue) =>
+  value === null ? 'NULL' : typeof value === 'number' ? String(value) : `'${value.replace(/'/g, "''")}'`;
+
+// The learner's result as a table named `answer`, so tests can query it like any other table.
+const answerTable = ({ columns, rows }: ResultTable) => {
+  const seen = new Set<string>();
+  const names = columns.map((column) => {
+    let name = column;
+    for (let n = 2; seen.has(name.toLowerCase()); n++) name = `${column}_${n}`;
+    seen.add(name.toLowerCase());
+    return `"${name.replace(/"/g, '""')}"`;
+  });
+  const create = `CREATE TABLE answer (${names.join(', ')});`;
+  if (rows.length === 0) return create;
+  return `${create}\nINSERT INTO answer VALUES ${rows.map((row) => `(${row.map(sqlLiteral).join(', ')})`).join(', ')};`;
+};
+
+const parseReport = (text: string, prefix: string): Report | null => {
+  try {
+    return JSON.parse(text.slice(prefix.length));
+  } catch {
+    return null;
+  }
+};
+
+// A value that doesn't parse fails its test rather than the whole run.
+const toOutcome = (report: Extract<Report, { index: number }>): Outcome => {
+  if (report.error || report.value === undefined) return { display: report.display, error: report.error };
+  try {
+    return { value: JSON.parse(report.value), display: report.display };
+  } catch {
+    return { error: `The test produced ${report.display ?? 'a value'}, which can't be compared with the expected value.` };
+  }
+};
+
+// Why a test has no outcome, based on how the run that should have produced it ended.
+const missingOutcome = (status: RunStatus): Outcome => ({
+  error:
+    status === 'timeout'
+      ? 'Your code took too long, so the tests were stopped.'
+      : status === 'error'
+        ? 'Your code raised an error before this test could run. See the console.'
+        : 'This test did not finish.',
+});
+
+/**
+ * Runs an exercise's tests against the learner's project in the sandbox. Output from the learner's
+ * own code goes to `io` as usual; the tests' outcomes come back as a report.
+ */
+export const gradeExercise = (
+  topic: string,
+  exercise: Exercise,
+  project: Project,
+  io: RunIO,
+  limits: RunLimits = DEFAULT_RUN_LIMITS,
+): GradeHandle => {
+  let cancelled = false;
+  let current: RunHandle | null = null;
+  const prefix = reportPrefix();
+
+  // Runs one program to the end. A harness can still be awaiting promises when the script
+  // returns, so with `untilReported` the run also waits for its final report, within the time limit.
+  const execute = (input: RunInput, onOutput: (output: ConsoleOutput) => void, untilReported = false) =>
+    new Promise<RunStatus>((resolve) => {
+      const runner = getIsolatedRunner(topic, limits, exercise.dataset);
+      let reported = !untilReported;
+      let status: RunStatus | null = null;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let finished = false;
+
+      const finish = (final: RunStatus) => {
+        if (finished) return;
+        finished = true;
+        clearTimeout(timer);
+        current = null;
+        handle.cancel();
+        resolve(final);
+      };
+      const settleIfDone = () => {
+        if (status !== null && (reported || status !== 'completed')) finish(status);
+      };
+
+      const handle = runner(input, {
+        phase: (phase) => {
+          if (cancelled) return;
+          io.phase(phase);
+          if (phase === 'running' && timer === undefined && untilReported) {
+            timer = setTimeout(() => finish('timeout'), limits.timeoutMs);
+          }
+        },
+        output: (output) => {
+          if (cancelled) return;
+          if (output.text.startsWith(prefix)) {
+            const report = parseReport(output.text, prefix);
+            if (report && 'done' in report) {
+              reported = true;
+              settleIfDone();
+            }
+          }
+          onOutput(output);
+        },
+      });
+      current = handle;
+      handle.done.then((result) => {
+        status = result;
+        settleIfDone();
+      });
+    });
+
+  const runHarness = async (): Promise<Outcome[]> => {
+    const outcomes: Outcome[] = [];
+    const harness = topic === 'python' ? pythonHarness(exercise.tests, prefix) : javascriptHarness(exercise.tests, prefix);
+    const files = { ...project.files, [project.entry]: `${project.files[project.entry] ?? ''}\n${harness}` };
+    const status = await execute({ files, entry: project.entry }, (output) => {
+      if (!output.text.startsWith(prefix)) {
+        io.output(output);
+        return;
+      }
+      const report = parseReport(output.text, prefix);
+      if (report && 'index' in report) outcomes[report.index] = toOutcome(report);
+    }, true);
+    return exercise.tests.map((_, index) => outcomes[index] ?? missingOutcome(status));
+  };
+
+  // SQL runs the learner's script once for its result, then each test query against that result.
+  const runQueries = async (): Promise<Outcome[]> => {
+    let answer: ResultTable | null = null;
+    const status = await execute({ files: project.files, entry: project.entry }, (output) => {
+      if (output.table) answer = output.table;
+      io.output(output);
+    });
+    if (status !== 'completed') return exercise.tests.map(() => missingOutcome(status));
+    if (!answer) return exercise.tests.map(() => ({ error: 'Your query did not return any rows to check.' }));
+    // Results are capped before they leave the sandbox, and a cut-off answer can't be checked fairly.
+    const { rows: kept, omitted } = answer;
+    if (omitted > 0) {
+      const error = `Your query returned ${kept.length + omitted} rows, more than the ${kept.length} that can be checked.`;
+      return exercise.tests.map(() => ({ error }));
+    }
+
+    const outcomes: Outcome[] = [];
+    for (const test of exercise.tests) {
+      let rows: CellValue[][] | null = null;
+      let error: string | undefined;
+      const code = `${answerTable(answer)}\n${test.expression};`;
+      const testStatus = await execute({ files: { 'test.sql': code }, entry: 'test.sql' }, (output) => {
+        if (output.table) {
+          rows = output.table.omitted > 0 ? null : output.table.rows;
+          if (!rows) error = `This test's query returned more than the ${output.table.rows.length} rows that can be checked.`;
+        }
+        if (output.level === 'error') error = output.text;
+      });
+      if (cancelled) break;
+      outcomes.push(rows ? { value: rows, display: JSON.stringify(rows) } : error ? { error } : missingOutcome(testStatus));
+    }
+    return outcomes;
+  };
+
+  const grade = async (): Promise<GradeReport | null> => {
+    const outcomes = topic === 'database' ? await runQueries() : await runHarness();
+    if (cancelled) return null;
+    const results = exercise.tests.map((test, index): TestResult => {
+      const outcome = outcomes[index];
+      const passed = !outcome.error && sameValue(outcome.value, test.expected);
+      return {
+        name: test.name,
+        hidden: test.hidden === true,
+        required: isRequired(test),
+        passed,
+        expected: formatTestValue(topic, test.expected),
+        actual: outcome.error ? null : (outcome.display ?? formatTestValue(topic, outcome.value)),
+        error: outcome.error,
+      };
+    });
+    const passed = results.filter((result) => result.passed).length;
+    return {
+      results,
+      passed,
+      score: results.length ? Math.round((passed / results.length) * 100) : 0,
+      complete: results.every((result) => result.passed || !result.required),
+    };
+  };
+
+  return {
+    done: grade(),
+    cancel: () => {
+      cancelled = true;
+      current?.cancel();
+    },
+  };
+};
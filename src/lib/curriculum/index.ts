@@ -0,0 +1,98 @@
+import { createProject, type Project } from '@/lib/project';
+import { defaultFileName } from '@/lib/editor/files';
+import { getCompletedLessons, isLessonComplete } from './progress';
+import type { Course, CourseManifest, Exercise, ExerciseTest, Lesson, QuizQuestion } from './types';
+
+export * from './types';
+export * from './progress';
+export * from './lesson-markdown';
+export * from './grading';
+export * from './quiz';
+
+// Each course is a folder: `course.json` for the structure, `lessons/<lesson>.md` for the text,
+// `quizzes/<lesson>.json` for its questions, `glossary.json` for terms, and `starters/<lesson>/` and `exercises/<exercise>/` for the files
+// the editor opens with. An exercise folder's `tests.json` holds its tests rather than a file.
+const manifests = import.meta.glob<CourseManifest>('./courses/*/course.json', { eager: true, import: 'default' });
+const glossaries = import.meta.glob<Record<string, string>>('./courses/*/glossary.json', { eager: true, import: 'default' });
+const lessonTexts = import.meta.glob<string>('./courses/*/lessons/*.md', { eager: true, query: '?raw', import: 'default' });
+const quizzes = import.meta.glob<QuizQuestion[]>('./courses/*/quizzes/*.json', { eager: true, import: 'default' });
+const exerciseTests = import.meta.glob<ExerciseTest[]>('./courses/*/exercises/*/tests.json', { eager: true, import: 'default' });
+const sources = import.meta.glob<string>(['./courses/*/{starters,exercises}/*/*', '!./courses/*/exercises/*/tests.json'], {
+  eager: true,
+  query: '?raw',
+  import: 'default',
+});
+
+// `./courses/javascript/course.json` → `javascript`
+const courseIdOf = (path: string) => path.split('/')[2];
+
+// Files in one starter folder, with the topic's usual main file as the entry.
+const loadStarter = (topic: string, folder: string): Project => {
+  const prefix = `./courses/${topic}/${folder}/`;
+  const files = Object.fromEntries(
+    Object.entries(sources)
+      .filter(([path]) => path.startsWith(prefix))
+      .map(([path, content]) => [path.slice(prefix.length), content]),
+  );
+  const entry = defaultFileName(topic);
+  return entry in files ? { files, entry } : createProject(entry);
+};
+
+const loadCourse = (id: string, manifest: CourseManifest): Course => ({
+  id,
+  title: manifest.title,
+  description: manifest.description,
+  glossary: glossaries[`./courses/${id}/glossary.json`] ?? {},
+  modules: manifest.modules.map((module) => ({
+    id: module.id,
+    title: module.title,
+    lessons: module.lessons.map((lesson) => ({
+      id: lesson.id,
+      title: lesson.title,
+      summary: lesson.summary,
+      content: lessonTexts[`./courses/${id}/lessons/${lesson.id}.md`] ?? '',
+      starter: loadStarter(id, `starters/${lesson.id}`),
+      exercises: (lesson.exercises ?? []).map((exercise) => ({
+        ...exercise,
+        dataset: exercise.dataset ?? manifest.dataset,
+        starter: loadStarter(id, `exercises/${exercise.id}`),
+        tests: exerciseTests[`./courses/${id}/exercises/${exercise.id}/tests.json`] ?? [],
+      })),
+      quiz: quizzes[`./courses/${id}/quizzes/${lesson.id}.json`] ?? [],
+    })),
+  })),
+});
+
+export const courses: Course[] = Object.entries(manifests).map(([path, manifest]) => loadCourse(courseIdOf(path), manifest));
+
+/** The course for a topic; topics without content yet have none. */
+export const getCourse = (topic: string) => courses.find((course) => course.id === topic) ?? null;
+
+export const courseLessons = (course: Course): Lesson[] => course.modules.flatMap((module) => module.lessons);
+
+export const getLesson = (topic: string, lessonId: string) => {
+  const course = getCourse(topic);
+  return course ? (courseLessons(course).find((lesson) => lesson.id === lessonId) ?? null) : null;
+};
+
+export const getExercise = (exerciseId: string): { course: Course; lesson: Lesson; exercise: Exercise } | null => {
+  for (const course of courses) {
+    for (const lesson of courseLessons(course)) {
+      const exercise = lesson.exercises.find((candidate) => candidate.id === exerciseId);
+      if (exercise) return { course, lesson, exercise };
+    }
+  }
+  return null;
+};
+
+export const courseProgress = (course: Course, done = getCompletedLessons()) => {
+  const lessons = courseLessons(course);
+  const complete = lessons.filter((lesson) => isLessonComplete(course.id, lesson.id, done)).length;
+  return { complete, total: lessons.length };
+};
+
+/** Where to pick up a course: the first lesson not yet completed, or the first one once all are. */
+export const nextLesson = (course: Course, done = getCompletedLessons()) => {
+  const lessons = courseLessons(course);
+  return lessons.find((lesson) => !isLessonComplete(course.id, lesson.id, done)) ?? lessons[0] ?? null;
+};
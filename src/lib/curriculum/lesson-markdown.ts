@@ -0,0 +1,60 @@
+import { defaultUrlTransform } from 'react-markdown';
+
+/** GitHub-style alert kinds, written as `> [!TIP]` on the first line of a blockquote. */
+export type CalloutKind = 'note' | 'tip' | 'important' | 'warning' | 'caution';
+
+const CALLOUT_MARKER = /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\][ \t]*\n?/i;
+
+// Just enough of the Markdown syntax tree for the callout plugin, without depending on mdast.
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  children?: MarkdownNode[];
+  data?: { hName?: string; hProperties?: Record<string, unknown> };
+}
+
+const markCallouts = (node: MarkdownNode) => {
+  for (const child of node.children ?? []) markCallouts(child);
+  if (node.type !== 'blockquote') return;
+
+  const paragraph = node.children?.[0];
+  const text = paragraph?.type === 'paragraph' ? paragraph.children?.[0] : undefined;
+  const match = text?.type === 'text' ? CALLOUT_MARKER.exec(text.value ?? '') : null;
+  if (!match) return;
+
+  text.value = text.value.slice(match[0].length);
+  if (!text.value && paragraph.children.length === 1) node.children.shift();
+  node.data = { hName: 'aside', hProperties: { className: [`callout-${match[1].toLowerCase()}`] } };
+};
+
+/** Remark plugin turning `> [!NOTE]` blockquotes into `<aside class="callout-note">`. */
+export const remarkCallouts = () => (tree: MarkdownNode) => markCallouts(tree);
+
+export const calloutKindOf = (className: string | undefined) =>
+  (/callout-(\w+)/.exec(className ?? '')?.[1] as CalloutKind | undefined) ?? null;
+
+const GLOSSARY_SCHEME = 'glossary:';
+
+/** The term id of a `[text](glossary:term)` link, or null for ordinary links. */
+export const glossaryTerm = (href: string | undefined) =>
+  href?.startsWith(GLOSSARY_SCHEME) ? decodeURIComponent(href.slice(GLOSSARY_SCHEME.length)) : null;
+
+/** The default URL filter, but letting glossary links through. */
+export const lessonUrlTransform = (url: string) => (glossaryTerm(url) !== null ? url : defaultUrlTransform(url));
+
+/** Site-absolute paths such as `/lessons/diagram.svg` point into `public/`, wherever the app is hosted. */
+export const publicAsset = (src: string | undefined) =>
+  src?.startsWith('/') && !src.startsWith('//') ? `${import.meta.env.BASE_URL}${src.slice(1)}` : src;
+
+const snippetTopics: Record<string, string> = {
+  js: 'javascript',
+  javascript: 'javascript',
+  jsx: 'react',
+  react: 'react',
+  py: 'python',
+  python: 'python',
+  sql: 'database',
+};
+
+/** The topic a fenced snippet's code belongs to, e.g. `py` → `python`; null for other languages. */
+export const snippetTopic = (fenceLanguage: string) => snippetTopics[fenceLanguage.toLowerCase()] ?? null;
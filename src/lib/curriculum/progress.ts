@@ -0,0 +1,109 @@
+const LESSONS_KEY = 'lesson-progress';
+const EXERCISES_KEY = 'exercise-progress';
+const QUIZZES_KEY = 'quiz-scores';
+const ANSWERS_SEEN_KEY = 'quiz-answers-seen';
+
+const listeners = new Set<() => void>();
+// Completed lessons as `course/lesson` keys.
+let completed: string[] | null = null;
+// Ids of exercises whose required tests have all passed.
+let completedExercises: string[] | null = null;
+// Best quiz score per `course/lesson` key, from 0 to 100.
+let quizScores: Record<string, number> | null = null;
+// Quizzes whose answers the learner has been shown, as `course/lesson` keys.
+let answersSeen: string[] | null = null;
+
+const progressKey = (courseId: string, lessonId: string) => `${courseId}/${lessonId}`;
+
+const readKeys = (storageKey: string): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((key) => typeof key === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const persist = (storageKey: string, value: unknown) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(value));
+  } catch {
+    // Kept in memory for this session even if it can't be persisted.
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const getCompletedLessons = (): string[] => {
+  completed ??= readKeys(LESSONS_KEY);
+  return completed;
+};
+
+export const isLessonComplete = (courseId: string, lessonId: string, done = getCompletedLessons()) =>
+  done.includes(progressKey(courseId, lessonId));
+
+export const setLessonComplete = (courseId: string, lessonId: string, complete: boolean) => {
+  const key = progressKey(courseId, lessonId);
+  const others = getCompletedLessons().filter((existing) => existing !== key);
+  completed = complete ? [...others, key] : others;
+  persist(LESSONS_KEY, completed);
+};
+
+export const getCompletedExercises = (): string[] => {
+  completedExercises ??= readKeys(EXERCISES_KEY);
+  return completedExercises;
+};
+
+export const isExerciseComplete = (exerciseId: string, done = getCompletedExercises()) => done.includes(exerciseId);
+
+export const setExerciseComplete = (exerciseId: string, complete: boolean) => {
+  const others = getCompletedExercises().filter((existing) => existing !== exerciseId);
+  completedExercises = complete ? [...others, exerciseId] : others;
+  persist(EXERCISES_KEY, completedExercises);
+};
+
+export const getQuizScores = (): Record<string, number> => {
+  if (quizScores) return quizScores;
+  try {
+    const stored = JSON.parse(localStorage.getItem(QUIZZES_KEY) ?? '{}');
+    quizScores = Object.fromEntries(
+      Object.entries(stored && typeof stored === 'object' ? stored : {}).filter(([, score]) => typeof score === 'number'),
+    ) as Record<string, number>;
+  } catch {
+    quizScores = {};
+  }
+  return quizScores;
+};
+
+export const bestQuizScore = (courseId: string, lessonId: string, scores = getQuizScores()): number | null =>
+  scores[progressKey(courseId, lessonId)] ?? null;
+
+/** Keeps the learner's best attempt, so a worse retry doesn't lower it. */
+export const recordQuizScore = (courseId: string, lessonId: string, score: number) => {
+  const key = progressKey(courseId, lessonId);
+  const scores = getQuizScores();
+  if ((scores[key] ?? -1) >= score) return;
+  quizScores = { ...scores, [key]: score };
+  persist(QUIZZES_KEY, quizScores);
+};
+
+export const getQuizAnswersSeen = (): string[] => {
+  answersSeen ??= readKeys(ANSWERS_SEEN_KEY);
+  return answersSeen;
+};
+
+export const hasSeenQuizAnswers = (courseId: string, lessonId: string, seen = getQuizAnswersSeen()) =>
+  seen.includes(progressKey(courseId, lessonId));
+
+/** Once the answers have been shown, later tries at the quiz no longer count, even after a reload. */
+export const setQuizAnswersSeen = (courseId: string, lessonId: string) => {
+  if (hasSeenQuizAnswers(courseId, lessonId)) return;
+  answersSeen = [...getQuizAnswersSeen(), progressKey(courseId, lessonId)];
+  persist(ANSWERS_SEEN_KEY, answersSeen);
+};
+
+export const onProgressChange = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { initialResponses, isAnswered, isCorrect, scoreQuiz, shuffledOrder } from './quiz';
+import type { QuizQuestion } from './types';
+
+const single: QuizQuestion = {
+  id: 'single',
+  kind: 'single',
+  prompt: 'Which one?',
+  options: [{ text: 'a' }, { text: 'b' }, { text: 'c' }],
+  answer: 1,
+};
+
+const multiple: QuizQuestion = {
+  id: 'multiple',
+  kind: 'multiple',
+  prompt: 'Which ones?',
+  options: [{ text: 'a' }, { text: 'b' }, { text: 'c' }],
+  answers: [0, 2],
+};
+
+const blank: QuizQuestion = { id: 'blank', kind: 'blank', prompt: 'Fill in', answers: ['Hello World', 'hi'] };
+
+const order: QuizQuestion = { id: 'order', kind: 'order', prompt: 'Sort', items: ['first', 'second', 'third'] };
+
+const output: QuizQuestion = {
+  id: 'output',
+  kind: 'output',
+  prompt: 'What does it print?',
+  code: 'print(1)\nprint(2)',
+  language: 'python',
+  output: '1\n2',
+};
+
+describe('isAnswered', () => {
+  it('needs a choice, a non-empty pick or some text', () => {
+    expect(isAnswered(single, undefined)).toBe(false);
+    expect(isAnswered(single, 0)).toBe(true);
+    expect(isAnswered(multiple, [])).toBe(false);
+    expect(isAnswered(multiple, [1])).toBe(true);
+    expect(isAnswered(blank, '   ')).toBe(false);
+    expect(isAnswered(output, 'x')).toBe(true);
+  });
+});
+
+describe('isCorrect', () => {
+  it('checks single choice by index', () => {
+    expect(isCorrect(single, 1)).toBe(true);
+    expect(isCorrect(single, 0)).toBe(false);
+  });
+
+  it('needs exactly the right options for multiple choice, in any order', () => {
+    expect(isCorrect(multiple, [2, 0])).toBe(true);
+    expect(isCorrect(multiple, [0])).toBe(false);
+    expect(isCorrect(multiple, [0, 1, 2])).toBe(false);
+  });
+
+  it('ignores case and extra spaces in fill-in answers unless told otherwise', () => {
+    expect(isCorrect(blank, '  hello   world ')).toBe(true);
+    expect(isCorrect(blank, 'HI')).toBe(true);
+    expect(isCorrect(blank, 'hello')).toBe(false);
+    expect(isCorrect({ ...blank, caseSensitive: true }, 'hello world')).toBe(false);
+    expect(isCorrect({ ...blank, caseSensitive: true }, 'Hello World')).toBe(true);
+  });
+
+  it('accepts only the original order', () => {
+    expect(isCorrect(order, [0, 1, 2])).toBe(true);
+    expect(isCorrect(order, [1, 0, 2])).toBe(false);
+  });
+
+  it('compares output line by line, ignoring trailing spaces and blank lines at the ends', () => {
+    expect(isCorrect(output, '\n1  \r\n2\n\n')).toBe(true);
+    expect(isCorrect(output, '1 2')).toBe(false);
+    expect(isCorrect(output, '1\n 2')).toBe(false);
+  });
+});
+
+describe('scoreQuiz', () => {
+  const questions = [single, multiple, blank, order, output];
+
+  it('passes at 80%', () => {
+    const score = scoreQuiz(questions, { single: 1, multiple: [0, 2], blank: 'hi', order: [0, 1, 2], output: 'wrong' });
+    expect(score).toEqual({ correct: 4, total: 5, score: 80, passed: true });
+  });
+
+  it('fails below 80%', () => {
+    const score = scoreQuiz(questions, { single: 1, multiple: [0], blank: 'hi', order: [0, 1, 2] });
+    expect(score).toEqual({ correct: 3, total: 5, score: 60, passed: false });
+  });
+
+  it('never passes an empty quiz', () => {
+    expect(scoreQuiz([], {})).toEqual({ correct: 0, total: 0, score: 0, passed: false });
+  });
+});
+
+describe('shuffledOrder', () => {
+  it('is a permutation that is never already in order', () => {
+    for (let run = 0; run < 50; run++) {
+      const shuffled = shuffledOrder(3);
+      expect([...shuffled].sort()).toEqual([0, 1, 2]);
+      expect(shuffled).not.toEqual([0, 1, 2]);
+    }
+  });
+});
+
+describe('initialResponses', () => {
+  it('only pre-fills ordering questions, already shuffled', () => {
+    const responses = initialResponses([single, order]);
+    expect(Object.keys(responses)).toEqual(['order']);
+    expect(isCorrect(order, responses.order)).toBe(false);
+  });
+});
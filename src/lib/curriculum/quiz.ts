@@ -0,0 +1,87 @@
+import type { QuizQuestion } from './types';
+
+/** Share of right answers, from 0 to 100, that passes a quiz and completes its lesson. */
+export const QUIZ_PASS_SCORE = 80;
+
+/**
+ * What the learner answered: an option index for single choice, option indexes for multiple
+ * choice, text for fill-in and predict-the-output, and item indexes in their order for ordering.
+ */
+export type QuizResponse = number | number[] | string;
+
+export type QuizResponses = Record<string, QuizResponse>;
+
+export interface QuizScore {
+  correct: number;
+  total: number;
+  /** From 0 to 100. */
+  score: number;
+  passed: boolean;
+}
+
+const normalizeText = (text: string, caseSensitive = false) => {
+  const collapsed = text.trim().replace(/\s+/g, ' ');
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+};
+
+// Trailing spaces and blank lines at either end don't count; everything else in the output does.
+const normalizeOutput = (text: string) =>
+  text
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim();
+
+const sameIndexes = (chosen: number[], right: number[]) =>
+  chosen.length === right.length && right.every((index) => chosen.includes(index));
+
+export const isAnswered = (question: QuizQuestion, response: QuizResponse | undefined) => {
+  if (response === undefined) return false;
+  if (question.kind === 'multiple') return (response as number[]).length > 0;
+  if (question.kind === 'blank' || question.kind === 'output') return (response as string).trim() !== '';
+  return true;
+};
+
+export const isCorrect = (question: QuizQuestion, response: QuizResponse | undefined) => {
+  if (!isAnswered(question, response)) return false;
+  switch (question.kind) {
+    case 'single':
+      return response === question.answer;
+    case 'multiple':
+      return sameIndexes(response as number[], question.answers);
+    case 'blank': {
+      const given = normalizeText(response as string, question.caseSensitive);
+      return question.answers.some((answer) => normalizeText(answer, question.caseSensitive) === given);
+    }
+    case 'order':
+      return (response as number[]).every((item, position) => item === position);
+    case 'output':
+      return normalizeOutput(response as string) === normalizeOutput(question.output);
+  }
+};
+
+export const scoreQuiz = (questions: QuizQuestion[], responses: QuizResponses): QuizScore => {
+  const correct = questions.filter((question) => isCorrect(question, responses[question.id])).length;
+  const score = questions.length ? Math.round((correct / questions.length) * 100) : 0;
+  return { correct, total: questions.length, score, passed: score >= QUIZ_PASS_SCORE };
+};
+
+/** Item indexes in a random order that is never already the right one. */
+export const shuffledOrder = (count: number) => {
+  const order = Array.from({ length: count }, (_, index) => index);
+  if (count < 2) return order;
+  do {
+    for (let i = count - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+  } while (order.every((item, position) => item === position));
+  return order;
+};
+
+/** Fresh responses: ordering questions start out shuffled, everything else unanswered. */
+export const initialResponses = (questions: QuizQuestion[]): QuizResponses =>
+  Object.fromEntries(
+    questions.filter((question) => question.kind === 'order').map((question) => [question.id, shuffledOrder(question.items.length)]),
+  );
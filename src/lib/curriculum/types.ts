@@ -0,0 +1,140 @@
+import type { Project } from '@/lib/project';
+
+/** A check Submit runs against the learner's code. */
+export interface ExerciseTest {
+  name: string;
+  /**
+   * Evaluated after the learner's code: a JavaScript or Python expression (promises are awaited),
+   * or for SQL a query over `answer`, a table holding the rows the learner's query returned.
+   */
+  expression: string;
+  /** The JSON value the expression must produce; SQL tests list the expected rows. */
+  expected: unknown;
+  /** Hidden tests report whether they passed but not what they checked. */
+  hidden?: boolean;
+  /** Tests with `required: false` count towards the score but not towards completing the exercise. */
+  required?: boolean;
+}
+
+/** A practice task within a lesson. Ids are unique across all courses. */
+export interface Exercise {
+  id: string;
+  title: string;
+  /** What the learner has to do, in Markdown. */
+  prompt: string;
+  starter: Project;
+  /** Empty for exercises that can't be checked automatically, such as React components. */
+  tests: ExerciseTest[];
+  /** SQL only: the sample dataset the tests run against; the default one when unset. */
+  dataset?: string;
+}
+
+export interface ChoiceOption {
+  text: string;
+  /** Why this option is right or wrong, shown with the answers. */
+  explanation?: string;
+}
+
+interface QuestionBase {
+  /** Unique within its lesson. */
+  id: string;
+  /** The question, in Markdown. */
+  prompt: string;
+  /** Shown with the answers, whether this one was right or not. */
+  explanation?: string;
+}
+
+export interface SingleChoiceQuestion extends QuestionBase {
+  kind: 'single';
+  options: ChoiceOption[];
+  /** Index of the right option. */
+  answer: number;
+}
+
+export interface MultipleChoiceQuestion extends QuestionBase {
+  kind: 'multiple';
+  options: ChoiceOption[];
+  /** Indexes of every right option; the learner has to pick exactly these. */
+  answers: number[];
+}
+
+export interface FillInQuestion extends QuestionBase {
+  kind: 'blank';
+  /** Accepted answers, compared ignoring surrounding spaces and, unless `caseSensitive`, case. */
+  answers: string[];
+  caseSensitive?: boolean;
+}
+
+export interface OrderingQuestion extends QuestionBase {
+  kind: 'order';
+  /** In the right order; the learner sees them shuffled. */
+  items: string[];
+}
+
+export interface PredictOutputQuestion extends QuestionBase {
+  kind: 'output';
+  code: string;
+  /** Markdown language tag for `code`, e.g. `js` or `python`. */
+  language: string;
+  /** What the code prints; compared line by line, ignoring trailing spaces. */
+  output: string;
+}
+
+export type QuizQuestion =
+  | SingleChoiceQuestion
+  | MultipleChoiceQuestion
+  | FillInQuestion
+  | OrderingQuestion
+  | PredictOutputQuestion;
+
+export interface Lesson {
+  /** Unique within its course. */
+  id: string;
+  title: string;
+  /** One sentence on what the lesson covers. */
+  summary: string;
+  /** The explanation to read before coding, in Markdown; empty when not written yet. */
+  content: string;
+  /** What the editor opens with until the learner has a draft. */
+  starter: Project;
+  exercises: Exercise[];
+  /** Comprehension checks at the end of the lesson; empty when it has none. */
+  quiz: QuizQuestion[];
+}
+
+export interface CourseModule {
+  id: string;
+  title: string;
+  lessons: Lesson[];
+}
+
+/** One course per topic; its id is the topic id, e.g. `javascript`. */
+export interface Course {
+  id: string;
+  title: string;
+  description: string;
+  modules: CourseModule[];
+  /** Definitions for `[text](glossary:term)` links in the lessons, keyed by term. */
+  glossary: Record<string, string>;
+}
+
+/**
+ * The shape of a `course.json` file. Starter code, `lessons/<lesson>.md`, `quizzes/<lesson>.json`,
+ * `glossary.json` and each exercise's `tests.json` live in files next to it.
+ */
+export interface CourseManifest {
+  title: string;
+  description: string;
+  /** SQL only: the sample dataset for exercises that don't name their own. */
+  dataset?: string;
+  modules: {
+    id: string;
+    title: string;
+    lessons: {
+      id: string;
+      title: string;
+      summary: string;
+      exercises?: { id: string; title: string; prompt: string; dataset?: string }[];
+    }[];
+  }[];
+}
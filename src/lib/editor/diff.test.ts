@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './diff';
+
+describe('diffLines', () => {
+  it('marks unchanged text as the same on both sides', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'same', left: { number: 1, text: 'a' }, right: { number: 1, text: 'a' } },
+      { type: 'same', left: { number: 2, text: 'b' }, right: { number: 2, text: 'b' } },
+    ]);
+  });
+
+  it('pairs a removal with the addition next to it as a change', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc').map((row) => row.type)).toEqual(['same', 'changed', 'same']);
+  });
+
+  it('numbers added and removed lines in their own version', () => {
+    const rows = diffLines('a\nc', 'a\nb\nc\nd');
+    expect(rows.map((row) => row.type)).toEqual(['same', 'added', 'same', 'added']);
+    expect(rows[1]).toEqual({ type: 'added', left: undefined, right: { number: 2, text: 'b' } });
+    expect(rows[2].left).toEqual({ number: 2, text: 'c' });
+    expect(diffLines('a\nb', 'b')[0]).toEqual({ type: 'removed', left: { number: 1, text: 'a' }, right: undefined });
+  });
+});
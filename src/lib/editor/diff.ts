@@ -0,0 +1,79 @@
+export interface DiffLine {
+  /** 1-based line number in its own version. */
+  number: number;
+  text: string;
+}
+
+/** One row of a side-by-side diff; a missing side means the line only exists in the other version. */
+export interface DiffRow {
+  type: 'same' | 'removed' | 'added' | 'changed';
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Beyond this many line pairs the LCS table gets slow; such diffs just show every line as changed.
+const MAX_CELLS = 4_000_000;
+
+const splitLines = (text: string) => text.split('\n');
+
+/** Longest-common-subsequence line diff, with adjacent removals and additions paired up as changes. */
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const ops: ('same' | 'removed' | 'added')[] = [];
+
+  if (a.length * b.length > MAX_CELLS) {
+    ops.push(...a.map(() => 'removed' as const), ...b.map(() => 'added' as const));
+  } else {
+    // lengths[i][j] = LCS length of a[i..] and b[j..]
+    const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        ops.push('same');
+        i++;
+        j++;
+      } else if (j < b.length && (i === a.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+        ops.push('added');
+        j++;
+      } else {
+        ops.push('removed');
+        i++;
+      }
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let left = 0;
+  let right = 0;
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const pair = { left: removed[k], right: added[k] };
+      rows.push({ type: pair.left && pair.right ? 'changed' : pair.left ? 'removed' : 'added', ...pair });
+    }
+    removed = [];
+    added = [];
+  };
+  for (const op of ops) {
+    if (op === 'same') {
+      flush();
+      rows.push({ type: 'same', left: { number: left + 1, text: a[left] }, right: { number: right + 1, text: b[right] } });
+      left++;
+      right++;
+    } else if (op === 'removed') {
+      removed.push({ number: left + 1, text: a[left++] });
+    } else {
+      added.push({ number: right + 1, text: b[right++] });
+    }
+  }
+  flush();
+  return rows;
+};
@@ -0,0 +1,11 @@
+import { Decoration, EditorView } from '@codemirror/view';
+
+const errorLine = Decoration.line({ class: 'cm-error-line' });
+
+/** Marks a 1-based line, e.g. where the last run raised an error. Out-of-range lines are ignored. */
+export const errorLineHighlight = (line: number | null) =>
+  EditorView.decorations.of((view) => {
+    const { doc } = view.state;
+    if (line === null || line < 1 || line > doc.lines) return Decoration.none;
+    return Decoration.set([errorLine.range(doc.line(line).from)]);
+  });
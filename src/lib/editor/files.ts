@@ -0,0 +1,79 @@
+export interface OpenedFile {
+  name: string;
+  content: string;
+  /** Topic the file belongs to; unset for supporting files such as stylesheets. */
+  language?: string;
+}
+
+interface FileType {
+  language: string;
+  extensions: string[];
+  defaultName: string;
+  mimeType: string;
+}
+
+const fileTypes: FileType[] = [
+  { language: 'javascript', extensions: ['.js', '.mjs', '.cjs'], defaultName: 'main.js', mimeType: 'text/javascript' },
+  { language: 'react', extensions: ['.jsx', '.tsx', '.ts'], defaultName: 'App.jsx', mimeType: 'text/javascript' },
+  { language: 'python', extensions: ['.py'], defaultName: 'main.py', mimeType: 'text/x-python' },
+  { language: 'database', extensions: ['.sql'], defaultName: 'query.sql', mimeType: 'application/sql' },
+];
+
+/** Files that can live in any project alongside its code, e.g. a component's stylesheet. */
+const supportingExtensions: Record<string, string> = {
+  '.css': 'css',
+  '.json': 'json',
+  '.txt': 'text',
+  '.md': 'text',
+};
+
+// React projects also hold plain JavaScript modules next to their components.
+const projectLanguages: Record<string, string[]> = { react: ['react', 'javascript'] };
+
+const extensionOf = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+};
+
+/** Extensions the "Open file" picker offers, e.g. for an `<input accept>`. */
+export const openableExtensions = [...fileTypes.flatMap((type) => type.extensions), ...Object.keys(supportingExtensions)];
+
+/** Topic id for a file name, or `undefined` when the extension isn't one we can edit. */
+export const detectLanguage = (fileName: string) =>
+  fileTypes.find((type) => type.extensions.includes(extensionOf(fileName)))?.language;
+
+/** Whether a file in `language` belongs in a `topic` project rather than in a project of its own. */
+export const fitsProject = (language: string, topic: string) => (projectLanguages[topic] ?? [topic]).includes(language);
+
+/** Editor language for a file in a `topic` project: its own type when known, else the topic's. */
+export const editorLanguageFor = (fileName: string, topic: string) => {
+  const language = detectLanguage(fileName);
+  if (language) return fitsProject(language, topic) ? topic : language;
+  return supportingExtensions[extensionOf(fileName)] ?? topic;
+};
+
+export const defaultFileName = (language: string) =>
+  fileTypes.find((type) => type.language === language)?.defaultName ?? 'code.txt';
+
+const REVOKE_DELAY_MS = 1000;
+
+export const downloadFile = (fileName: string, content: string) => {
+  const extension = extensionOf(fileName);
+  const mimeType = fileTypes.find((type) => type.extensions.includes(extension))?.mimeType ?? 'text/plain';
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Firefox can still be starting the download when click() returns, so the URL outlives it a while.
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+/** Reads a local file the learner picked or dropped, rejecting types the editor can't handle. */
+export const readFile = async (file: File): Promise<OpenedFile> => {
+  const language = detectLanguage(file.name);
+  if (!language && !(extensionOf(file.name) in supportingExtensions)) {
+    throw new Error(`${file.name} isn't a supported file. Try one of: ${openableExtensions.join(', ')}`);
+  }
+  return { name: file.name, content: await file.text(), language };
+};
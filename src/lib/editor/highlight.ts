@@ -0,0 +1,66 @@
+import type { Language } from '@codemirror/language';
+import { highlightCode, tagHighlighter } from '@lezer/highlight';
+import { javascriptLanguage, jsxLanguage, tsxLanguage, typescriptLanguage } from '@codemirror/lang-javascript';
+import { pythonLanguage } from '@codemirror/lang-python';
+import { SQLite } from '@codemirror/lang-sql';
+import { cssLanguage } from '@codemirror/lang-css';
+import { highlightSpecs } from './theme';
+
+export interface HighlightedSpan {
+  text: string;
+  style?: React.CSSProperties;
+}
+
+/** Parsers for the language names people put after a Markdown code fence. */
+const parsers: Record<string, Language['parser']> = {
+  js: javascriptLanguage.parser,
+  javascript: javascriptLanguage.parser,
+  mjs: javascriptLanguage.parser,
+  cjs: javascriptLanguage.parser,
+  json: javascriptLanguage.parser,
+  jsx: jsxLanguage.parser,
+  ts: typescriptLanguage.parser,
+  typescript: typescriptLanguage.parser,
+  tsx: tsxLanguage.parser,
+  react: tsxLanguage.parser,
+  py: pythonLanguage.parser,
+  python: pythonLanguage.parser,
+  sql: SQLite.language.parser,
+  sqlite: SQLite.language.parser,
+  database: SQLite.language.parser,
+  css: cssLanguage.parser,
+};
+
+// Spec index as class name, so each highlighted token can be mapped back to its colours.
+const highlighter = tagHighlighter(highlightSpecs.map((spec, index) => ({ tag: spec.tag, class: String(index) })));
+
+const styleFor = (classes: string): React.CSSProperties => {
+  const style: React.CSSProperties = {};
+  for (const index of classes.split(' ')) {
+    const spec = highlightSpecs[Number(index)];
+    if (spec?.color) style.color = spec.color as string;
+    if (spec?.fontStyle) style.fontStyle = spec.fontStyle as string;
+  }
+  return style;
+};
+
+export const canHighlight = (language: string) => language.toLowerCase() in parsers;
+
+/**
+ * Splits `code` into lines of coloured spans using the editor's palette, without creating an
+ * editor. Unknown languages come back as plain text.
+ */
+export const highlight = (code: string, language: string): HighlightedSpan[][] => {
+  const parser = parsers[language.toLowerCase()];
+  if (!parser) return code.split('\n').map((line) => [{ text: line }]);
+
+  const lines: HighlightedSpan[][] = [[]];
+  highlightCode(
+    code,
+    parser.parse(code),
+    highlighter,
+    (text, classes) => lines[lines.length - 1].push(classes ? { text, style: styleFor(classes) } : { text }),
+    () => lines.push([]),
+  );
+  return lines;
+};
@@ -0,0 +1,24 @@
+import type { Extension } from '@codemirror/state';
+import { javascript } from '@codemirror/lang-javascript';
+import { python } from '@codemirror/lang-python';
+import { sql, SQLite } from '@codemirror/lang-sql';
+import { css } from '@codemirror/lang-css';
+import { indentUnit } from '@codemirror/language';
+
+/** Syntax support for each topic id the editor can be opened with. */
+export const languageExtension = (language: string): Extension => {
+  switch (language) {
+    case 'javascript':
+      return javascript();
+    case 'react':
+      return javascript({ jsx: true, typescript: true });
+    case 'python':
+      return [python(), indentUnit.of('    ')];
+    case 'database':
+      return sql({ dialect: SQLite, upperCaseKeywords: true });
+    case 'css':
+      return css();
+    default:
+      return [];
+  }
+};
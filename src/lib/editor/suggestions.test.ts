@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, applySuggestion, isUnifiedDiff } from './suggestions';
+
+const file = ['function add(a, b) {', '  return a - b;', '}', '', 'console.log(add(1, 2));'].join('\n');
+
+describe('applyPatch', () => {
+  it('applies a hunk at its stated line', () => {
+    const patch = ['@@ -1,3 +1,3 @@', ' function add(a, b) {', '-  return a - b;', '+  return a + b;', ' }'].join('\n');
+    expect(applyPatch(file, patch)).toBe(file.replace('a - b', 'a + b'));
+  });
+
+  it('finds the hunk when its line numbers are off or whitespace differs', () => {
+    const patch = ['@@ -40,2 +40,2 @@', '-  return a - b;   ', '+  return a + b;', ' }', ''].join('\n');
+    expect(applyPatch(file, patch)).toBe(file.replace('a - b', 'a + b'));
+  });
+
+  it('applies several hunks in order', () => {
+    const patch = [
+      '@@ -2,1 +2,1 @@',
+      '-  return a - b;',
+      '+  return a + b;',
+      '@@ -5,1 +5,2 @@',
+      ' console.log(add(1, 2));',
+      '+console.log(add(3, 4));',
+    ].join('\n');
+    expect(applyPatch(file, patch)).toBe(`${file.replace('a - b', 'a + b')}\nconsole.log(add(3, 4));`);
+  });
+
+  it("says where it failed when the patch doesn't match", () => {
+    const patch = ['@@ -1,1 +1,1 @@', '-  return a * b;', '+  return a + b;'].join('\n');
+    expect(() => applyPatch(file, patch)).toThrow('near "return a * b;"');
+  });
+});
+
+describe('applySuggestion', () => {
+  it('inserts at the cursor or replaces the selection', () => {
+    expect(applySuggestion('abcd', 'X', 'insert', { from: 1, to: 2 })).toBe('abXcd');
+    expect(applySuggestion('abcd', 'X', 'replace', { from: 1, to: 3 })).toBe('aXd');
+  });
+
+  it('treats a patch that is not a diff as the whole new file, keeping its final newline', () => {
+    expect(isUnifiedDiff('const a = 1;')).toBe(false);
+    expect(applySuggestion('old\n', 'new', 'patch', { from: 0, to: 0 })).toBe('new\n');
+    expect(applySuggestion('old', 'new', 'patch', { from: 0, to: 0 })).toBe('new');
+  });
+});
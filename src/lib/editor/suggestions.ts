@@ -0,0 +1,88 @@
+/** How a code block from the chat is put into the editor. */
+export type ApplyMode = 'insert' | 'replace' | 'patch';
+
+/** Character offsets of the cursor or selection in the file being edited. */
+export interface EditRange {
+  from: number;
+  to: number;
+}
+
+interface Hunk {
+  /** 1-based start line in the original file, as stated in the `@@` header. */
+  start: number;
+  before: string[];
+  after: string[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+/** True for unified diffs, e.g. a ```diff block with `@@` hunk headers. */
+export const isUnifiedDiff = (code: string) => code.split('\n').some((line) => HUNK_HEADER.test(line));
+
+const parseHunks = (patch: string): Hunk[] => {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  for (const line of patch.split('\n')) {
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      current = { start: Number(header[1]), before: [], after: [] };
+      hunks.push(current);
+    } else if (current && !line.startsWith('\\')) {
+      const [marker, text] = [line[0], line.slice(1)];
+      if (marker === '-' || marker === ' ' || line === '') current.before.push(line === '' ? '' : text);
+      if (marker === '+' || marker === ' ' || line === '') current.after.push(line === '' ? '' : text);
+    }
+  }
+  // Models often end a block with a stray blank line; it isn't part of the last hunk.
+  const last = hunks[hunks.length - 1];
+  while (last && last.before[last.before.length - 1] === '' && last.after[last.after.length - 1] === '') {
+    last.before.pop();
+    last.after.pop();
+  }
+  return hunks;
+};
+
+const matchesAt = (lines: string[], at: number, expected: string[]) =>
+  expected.every((line, offset) => lines[at + offset]?.trimEnd() === line.trimEnd());
+
+// Line numbers in suggested patches are frequently off, so search outwards from the stated position.
+const findHunk = (lines: string[], hunk: Hunk, from: number) => {
+  const stated = Math.min(Math.max(hunk.start - 1, from), lines.length);
+  for (let distance = 0; distance <= lines.length; distance++) {
+    for (const at of [stated + distance, stated - distance]) {
+      if (at >= from && at <= lines.length - hunk.before.length && matchesAt(lines, at, hunk.before)) return at;
+    }
+  }
+  return -1;
+};
+
+/** Applies a unified diff, tolerating wrong line numbers and trailing whitespace. */
+export const applyPatch = (content: string, patch: string) => {
+  const lines = content.split('\n');
+  let from = 0;
+  for (const hunk of parseHunks(patch)) {
+    const at = findHunk(lines, hunk, from);
+    if (at === -1) {
+      const firstLine = hunk.before.find((line) => line.trim()) ?? '';
+      throw new Error(`The patch doesn't match the current code${firstLine ? ` near "${firstLine.trim()}"` : ''}`);
+    }
+    lines.splice(at, hunk.before.length, ...hunk.after);
+    from = at + hunk.after.length;
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Returns the file contents after applying `code` in the given way. A "patch" that isn't a unified
+ * diff is taken to be the complete new version of the file.
+ */
+export const applySuggestion = (content: string, code: string, mode: ApplyMode, range: EditRange) => {
+  switch (mode) {
+    case 'insert':
+      return content.slice(0, range.to) + code + content.slice(range.to);
+    case 'replace':
+      return content.slice(0, range.from) + code + content.slice(range.to);
+    case 'patch':
+      return isUnifiedDiff(code) ? applyPatch(content, code) : code.endsWith('\n') || !content.endsWith('\n') ? code : `${code}\n`;
+  }
+};
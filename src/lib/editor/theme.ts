@@ -0,0 +1,77 @@
+import { EditorView } from '@codemirror/view';
+import { HighlightStyle, syntaxHighlighting, type TagStyle } from '@codemirror/language';
+import { tags as t } from '@lezer/highlight';
+
+const color = (token: string, alpha?: number) => `hsl(var(--${token})${alpha === undefined ? '' : ` / ${alpha}`})`;
+
+const editorTheme = EditorView.theme(
+  {
+    '&': {
+      height: '100%',
+      color: color('foreground'),
+      backgroundColor: 'transparent',
+      fontSize: '0.875rem',
+    },
+    '&.cm-focused': { outline: 'none' },
+    '.cm-scroller': {
+      fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+      lineHeight: '1.6',
+    },
+    '.cm-content': { caretColor: color('primary') },
+    '.cm-cursor, .cm-dropCursor': { borderLeftColor: color('primary') },
+    '&.cm-focused .cm-selectionBackground, .cm-selectionBackground, ::selection': {
+      backgroundColor: color('primary', 0.25),
+    },
+    '.cm-gutters': {
+      backgroundColor: color('code-bg'),
+      color: color('muted-foreground'),
+      borderRight: `1px solid ${color('code-border')}`,
+    },
+    '.cm-activeLine': { backgroundColor: color('muted', 0.35) },
+    '.cm-activeLineGutter': { backgroundColor: color('muted', 0.5), color: color('foreground') },
+    '.cm-foldPlaceholder': {
+      backgroundColor: color('muted'),
+      border: 'none',
+      color: color('muted-foreground'),
+    },
+    '&.cm-focused .cm-matchingBracket': {
+      backgroundColor: color('accent', 0.2),
+      outline: `1px solid ${color('accent', 0.5)}`,
+    },
+    '&.cm-focused .cm-nonmatchingBracket': { backgroundColor: color('destructive', 0.3) },
+    '.cm-tooltip': {
+      backgroundColor: color('popover'),
+      color: color('popover-foreground'),
+      border: `1px solid ${color('border')}`,
+      borderRadius: 'calc(var(--radius) - 4px)',
+    },
+    '.cm-tooltip-autocomplete > ul > li[aria-selected]': {
+      backgroundColor: color('primary', 0.25),
+      color: color('foreground'),
+    },
+    '.cm-error-line': {
+      backgroundColor: color('destructive', 0.15),
+      boxShadow: `inset 2px 0 0 ${color('destructive')}`,
+    },
+  },
+  { dark: true },
+);
+
+/** Token colours, shared by the editor and the static highlighter used for chat code blocks. */
+export const highlightSpecs: TagStyle[] = [
+  { tag: [t.keyword, t.controlKeyword, t.moduleKeyword, t.operatorKeyword], color: color('secondary') },
+  { tag: [t.string, t.special(t.string), t.regexp], color: color('accent') },
+  { tag: [t.number, t.bool, t.null, t.atom], color: 'hsl(35 95% 65%)' },
+  { tag: [t.function(t.variableName), t.function(t.propertyName)], color: color('primary') },
+  { tag: [t.definition(t.variableName), t.definition(t.propertyName)], color: color('primary-glow') },
+  { tag: [t.typeName, t.className, t.tagName], color: 'hsl(190 80% 60%)' },
+  { tag: [t.attributeName, t.propertyName], color: 'hsl(200 60% 75%)' },
+  { tag: [t.comment, t.lineComment, t.blockComment], color: color('muted-foreground'), fontStyle: 'italic' },
+  { tag: [t.operator, t.punctuation, t.bracket], color: color('foreground', 0.8) },
+  { tag: t.invalid, color: color('destructive') },
+];
+
+const highlightStyle = HighlightStyle.define(highlightSpecs);
+
+/** Dark editor styling built from the app's `--code-*` and palette design tokens. */
+export const codeTheme = [editorTheme, syntaxHighlighting(highlightStyle)];
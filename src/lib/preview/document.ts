@@ -0,0 +1,154 @@
+/** Messages the preview frame posts to the page. Tagged so unrelated postMessage traffic is ignored. */
+export type PreviewMessage = { source: 'code-preview' } & (
+  | { type: 'ready' }
+  | { type: 'rendered' }
+  | { type: 'error'; message: string; file?: string; line?: number }
+  | { type: 'console'; level: 'log' | 'info' | 'warn' | 'error'; text: string }
+  | { type: 'pong'; id: number }
+);
+
+export const isPreviewMessage = (data: unknown): data is PreviewMessage =>
+  typeof data === 'object' && data !== null && (data as { source?: unknown }).source === 'code-preview';
+
+const vendorUrl = (file: string) => new URL(`${import.meta.env.BASE_URL}vendor/${file}`, window.location.href).href;
+
+// Runs inside the sandboxed frame. It receives compiled modules from the page, evaluates
+// them against the bundled React UMD build and reports errors and console output back.
+const bootstrap = `
+(function () {
+  var has = function (object, key) {
+    return Object.prototype.hasOwnProperty.call(object, key);
+  };
+  var modules = {};
+  var send = function (message) {
+    message.source = 'code-preview';
+    parent.postMessage(message, '*');
+  };
+  var report = function (error) {
+    var message = { type: 'error', message: String((error && error.message) || error) };
+    var frames = ((error && error.stack) || '').matchAll(/([^\\s()@]+):(\\d+):\\d+/g);
+    for (var frame of frames) {
+      if (has(modules, frame[1])) {
+        message.file = frame[1];
+        message.line = Number(frame[2]);
+        break;
+      }
+    }
+    send(message);
+  };
+  var format = function (value) {
+    if (typeof value === 'string') return value;
+    try { return JSON.stringify(value); } catch (e) { return String(value); }
+  };
+
+  ['log', 'info', 'warn', 'error'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      original.apply(console, arguments);
+      send({ type: 'console', level: level, text: Array.prototype.map.call(arguments, format).join(' ') });
+    };
+  });
+  window.addEventListener('error', function (event) { report(event.error || event.message); });
+  window.addEventListener('unhandledrejection', function (event) { report(event.reason); });
+
+  var jsx = function (type, props, key) {
+    return React.createElement(type, key === undefined ? props : Object.assign({}, props, { key: key }));
+  };
+  var vendor = {
+    react: React,
+    'react-dom': ReactDOM,
+    'react-dom/client': ReactDOM,
+    'react/jsx-runtime': { jsx: jsx, jsxs: jsx, Fragment: React.Fragment },
+  };
+
+  var cache = {};
+  var load = function (path) {
+    if (has(cache, path)) return cache[path].exports;
+    var compiled = modules[path];
+    var module = { exports: {} };
+    cache[path] = module;
+    if (compiled.css !== undefined) {
+      var style = document.createElement('style');
+      style.setAttribute('data-module', path);
+      style.textContent = compiled.css;
+      document.head.appendChild(style);
+      return module.exports;
+    }
+    var require = function (specifier) {
+      if (has(vendor, specifier)) return vendor[specifier];
+      if (has(compiled.deps, specifier)) return load(compiled.deps[specifier]);
+      throw new Error(
+        specifier.charAt(0) === '.'
+          ? "Cannot find module '" + specifier + "' imported from " + path
+          : "Cannot import '" + specifier + "' in the preview. Only react, react-dom and project files are available."
+      );
+    };
+    var factory = (0, eval)('(function (require, module, exports) {' + compiled.code + '\\n})\\n//# sourceURL=' + path);
+    factory(require, module, module.exports);
+    return module.exports;
+  };
+
+  class Boundary extends React.Component {
+    constructor(props) {
+      super(props);
+      this.state = { failed: false };
+    }
+    static getDerivedStateFromError() {
+      return { failed: true };
+    }
+    componentDidCatch(error) {
+      report(error);
+    }
+    render() {
+      return this.state.failed ? null : this.props.children;
+    }
+  }
+
+  var root = ReactDOM.createRoot(document.getElementById('root'));
+  var version = 0;
+
+  // The page pings regularly; a frame stuck in a loop can't answer, so the page knows to replace it.
+  window.addEventListener('message', function (event) {
+    if (event.source === parent && event.data && event.data.type === 'ping') send({ type: 'pong', id: event.data.id });
+  });
+
+  window.addEventListener('message', function (event) {
+    if (event.source !== parent || !event.data || event.data.type !== 'render') return;
+    modules = event.data.modules;
+    cache = {};
+    document.querySelectorAll('style[data-module]').forEach(function (style) { style.remove(); });
+    try {
+      var exported = load(event.data.entry);
+      var Component = exported.default || Object.keys(exported).map(function (k) { return exported[k]; }).find(function (v) { return typeof v === 'function'; });
+      if (!Component) {
+        throw new Error('Nothing to render. Add a default export to ' + event.data.entry + ', e.g. export default App;');
+      }
+      version++;
+      root.render(React.createElement(Boundary, { key: version }, React.createElement(Component)));
+      send({ type: 'rendered' });
+    } catch (error) {
+      root.render(null);
+      report(error);
+    }
+  });
+
+  send({ type: 'ready' });
+})();
+`;
+
+export const createPreviewDocument = () => `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <style>
+      body { margin: 0; padding: 16px; font-family: system-ui, sans-serif; color: #0f172a; background: #fff; }
+      button { font: inherit; padding: 4px 12px; }
+    </style>
+    <script src="${vendorUrl('react.development.js')}"></script>
+    <script src="${vendorUrl('react-dom.development.js')}"></script>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script>${bootstrap}</script>
+  </body>
+</html>`;
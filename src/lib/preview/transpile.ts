@@ -0,0 +1,68 @@
+import { resolveImport } from '@/lib/project/paths';
+
+const SCRIPT_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+const IMPORTABLE_EXTENSIONS = [...SCRIPT_EXTENSIONS, '.css', '.json'];
+
+export interface CompiledModule {
+  /** CommonJS module body, for scripts and JSON. */
+  code?: string;
+  /** Stylesheet text, injected into the frame when the module is imported. */
+  css?: string;
+  /** Import specifiers used by the module, resolved to project paths. */
+  deps: Record<string, string>;
+}
+
+export interface TranspileError {
+  message: string;
+  file?: string;
+  line?: number;
+}
+
+export type TranspileResult =
+  | { modules: Record<string, CompiledModule>; error?: undefined }
+  | { modules?: undefined; error: TranspileError };
+
+const extensionOf = (path: string) => path.slice(path.lastIndexOf('.')).toLowerCase();
+
+const collectDeps = (files: Record<string, string>, path: string, code: string) => {
+  const deps: Record<string, string> = {};
+  for (const [, specifier] of code.matchAll(/\brequire\(\s*['"]([^'"]+)['"]\s*\)/g)) {
+    const resolved = resolveImport(files, path, specifier, IMPORTABLE_EXTENSIONS);
+    if (resolved) deps[specifier] = resolved;
+  }
+  return deps;
+};
+
+/**
+ * Compiles every JSX/TSX/JS module in the project to CommonJS the preview frame can
+ * evaluate. Sucrase keeps line numbers intact, so stack traces from the frame map
+ * straight back onto the editor. The compiler is loaded on first use so it stays out
+ * of the main bundle.
+ */
+export const transpileProject = async (files: Record<string, string>): Promise<TranspileResult> => {
+  const { transform } = await import('sucrase');
+  const modules: Record<string, CompiledModule> = {};
+
+  for (const [path, source] of Object.entries(files)) {
+    const extension = extensionOf(path);
+    if (extension === '.css') {
+      modules[path] = { css: source, deps: {} };
+    } else if (extension === '.json') {
+      modules[path] = { code: `module.exports = ${source};`, deps: {} };
+    } else if (SCRIPT_EXTENSIONS.includes(extension)) {
+      try {
+        const { code } = transform(source, {
+          transforms: ['jsx', 'typescript', 'imports'],
+          jsxRuntime: 'automatic',
+          production: true,
+          filePath: path,
+        });
+        modules[path] = { code, deps: collectDeps(files, path, code) };
+      } catch (error) {
+        const { message, loc } = error as Error & { loc?: { line: number } };
+        return { error: { message: message.replace(/^Error transforming [^:]+: /, ''), file: path, line: loc?.line } };
+      }
+    }
+  }
+  return { modules };
+};
@@ -0,0 +1,54 @@
+import type { Project } from './index';
+
+const STORAGE_PREFIX = 'code-draft:';
+
+export interface Draft {
+  project: Project;
+  /** Epoch milliseconds of the last write. */
+  savedAt: number;
+}
+
+/** Drafts are kept per topic, and per lesson within a topic once one is selected. */
+export const draftKey = (topic: string, lessonId?: string | number) =>
+  lessonId === undefined ? topic : `${topic}/${lessonId}`;
+
+const isProject = (value: unknown): value is Project => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { files, entry } = value as Project;
+  return (
+    typeof files === 'object' &&
+    files !== null &&
+    Object.values(files).every((content) => typeof content === 'string') &&
+    typeof entry === 'string' &&
+    entry in files
+  );
+};
+
+export const loadDraft = (key: string): Draft | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_PREFIX + key) ?? 'null');
+    return stored && isProject(stored.project) ? { project: stored.project, savedAt: Number(stored.savedAt) || 0 } : null;
+  } catch {
+    // Unreadable or hand-edited entries are treated as if there were no draft.
+    return null;
+  }
+};
+
+/** Returns false when the browser refuses the write, e.g. storage is full or disabled. */
+export const saveDraft = (key: string, project: Project) => {
+  try {
+    const draft: Draft = { project, savedAt: Date.now() };
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(draft));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const clearDraft = (key: string) => {
+  try {
+    localStorage.removeItem(STORAGE_PREFIX + key);
+  } catch {
+    // Nothing to clear if storage is unavailable.
+  }
+};
@@ -0,0 +1,103 @@
+import { basename, dirname, normalizePath } from './paths';
+
+export * from './paths';
+
+/** Source files keyed by project-relative path, e.g. `utils/math.js`. */
+export type SourceFiles = Record<string, string>;
+
+export interface Project {
+  files: SourceFiles;
+  /** The file that is executed when the learner presses Run. */
+  entry: string;
+}
+
+/** A 1-based line in one of the project's files, e.g. where an error was raised. */
+export interface SourceLocation {
+  file: string;
+  line: number;
+}
+
+/** The learner's selection in one file; `text` is empty when it's just the cursor. */
+export interface SourceRange {
+  file: string;
+  /** 1-based, inclusive. */
+  startLine: number;
+  endLine: number;
+  /** 0-based character offsets into the file. */
+  from: number;
+  to: number;
+  text: string;
+}
+
+export interface TreeNode {
+  name: string;
+  path: string;
+  /** Present for folders only. */
+  children?: TreeNode[];
+}
+
+export const createProject = (entry: string, content = ''): Project => ({ files: { [entry]: content }, entry });
+
+const checkNewPath = (project: Project, input: string) => {
+  const path = normalizePath(input);
+  if (!path) throw new Error('File name cannot be empty');
+  if (path in project.files) throw new Error(`${path} already exists`);
+  if (Object.keys(project.files).some((existing) => existing.startsWith(`${path}/`))) {
+    throw new Error(`${path} is already a folder`);
+  }
+  return path;
+};
+
+export const addFile = (project: Project, input: string, content = ''): Project => {
+  const path = checkNewPath(project, input);
+  return { ...project, files: { ...project.files, [path]: content } };
+};
+
+export const updateFile = (project: Project, path: string, content: string): Project => ({
+  ...project,
+  files: { ...project.files, [path]: content },
+});
+
+export const renameFile = (project: Project, from: string, input: string): Project => {
+  if (normalizePath(input) === from) return project;
+  const to = checkNewPath(project, input);
+  const files = Object.fromEntries(
+    Object.entries(project.files).map(([path, content]) => [path === from ? to : path, content]),
+  );
+  return { files, entry: project.entry === from ? to : project.entry };
+};
+
+export const deleteFile = (project: Project, path: string): Project => {
+  const remaining = Object.keys(project.files).filter((existing) => existing !== path);
+  if (remaining.length === 0) throw new Error('A project needs at least one file');
+  const files = { ...project.files };
+  delete files[path];
+  return { files, entry: project.entry === path ? remaining[0] : project.entry };
+};
+
+export const setEntry = (project: Project, path: string): Project => ({ ...project, entry: path });
+
+/** Builds the folder tree for the file explorer. Folders are implied by paths and listed first. */
+export const buildTree = (paths: string[]): TreeNode[] => {
+  const root: TreeNode = { name: '', path: '', children: [] };
+  for (const path of paths) {
+    let node = root;
+    const folders = dirname(path) ? dirname(path).split('/') : [];
+    for (const folder of folders) {
+      const folderPath = node.path ? `${node.path}/${folder}` : folder;
+      let next = node.children.find((child) => child.children && child.name === folder);
+      if (!next) {
+        next = { name: folder, path: folderPath, children: [] };
+        node.children.push(next);
+      }
+      node = next;
+    }
+    node.children.push({ name: basename(path), path });
+  }
+
+  const sort = (nodes: TreeNode[]): TreeNode[] =>
+    nodes
+      .map((node) => (node.children ? { ...node, children: sort(node.children) } : node))
+      .sort((a, b) => Number(!!b.children) - Number(!!a.children) || a.name.localeCompare(b.name));
+  return sort(root.children);
+};
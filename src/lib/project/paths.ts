@@ -0,0 +1,48 @@
+/** Turns user input like `./utils//math.js` into a canonical project path (`utils/math.js`). */
+export const normalizePath = (path: string) => {
+  const parts: string[] = [];
+  for (const part of path.trim().replace(/\\/g, '/').split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      if (parts.length === 0) throw new Error('Paths cannot point outside the project');
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+};
+
+export const dirname = (path: string) => {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+};
+
+export const basename = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+export const isRelativeSpecifier = (specifier: string) => specifier.startsWith('./') || specifier.startsWith('../');
+
+/**
+ * Resolves an import specifier from `fromPath` against the project's files the way a
+ * bundler would: exact match first, then with each extension, then as a folder index.
+ */
+export const resolveImport = (
+  files: Record<string, string>,
+  fromPath: string,
+  specifier: string,
+  extensions: string[],
+) => {
+  if (!isRelativeSpecifier(specifier)) return undefined;
+  let base: string;
+  try {
+    base = normalizePath(`${dirname(fromPath)}/${specifier}`);
+  } catch {
+    return undefined;
+  }
+  const candidates = [
+    base,
+    ...extensions.map((extension) => `${base}${extension}`),
+    ...extensions.map((extension) => `${base}/index${extension}`),
+  ];
+  return candidates.find((candidate) => candidate in files);
+};
@@ -0,0 +1,8 @@
+/** Where `/` leads. */
+export const DEFAULT_TOPIC = 'javascript';
+
+export const topicPath = (topicId: string) => `/topics/${topicId}`;
+
+export const lessonPath = (topicId: string, lessonId: string) => `/topics/${topicId}/lessons/${lessonId}`;
+
+export const exercisePath = (exerciseId: string) => `/exercises/${exerciseId}`;
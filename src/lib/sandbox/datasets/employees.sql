@@ -0,0 +1,42 @@
+CREATE TABLE departments (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  location TEXT NOT NULL
+);
+
+CREATE TABLE employees (
+  id INTEGER PRIMARY KEY,
+  first_name TEXT NOT NULL,
+  last_name TEXT NOT NULL,
+  email TEXT UNIQUE NOT NULL,
+  department_id INTEGER REFERENCES departments(id),
+  manager_id INTEGER REFERENCES employees(id),
+  title TEXT NOT NULL,
+  salary INTEGER NOT NULL,
+  hired_on TEXT NOT NULL
+);
+
+INSERT INTO departments (id, name, location) VALUES
+  (1, 'Engineering', 'Berlin'),
+  (2, 'Design', 'Lisbon'),
+  (3, 'Sales', 'New York'),
+  (4, 'Support', 'Manila'),
+  (5, 'Finance', 'London');
+
+INSERT INTO employees (id, first_name, last_name, email, department_id, manager_id, title, salary, hired_on) VALUES
+  (1, 'Ada', 'Okafor', 'ada.okafor@example.com', 1, NULL, 'VP Engineering', 185000, '2016-03-01'),
+  (2, 'Lin', 'Zhang', 'lin.zhang@example.com', 1, 1, 'Staff Engineer', 162000, '2017-08-14'),
+  (3, 'Marco', 'Rossi', 'marco.rossi@example.com', 1, 2, 'Senior Engineer', 138000, '2019-01-07'),
+  (4, 'Priya', 'Nair', 'priya.nair@example.com', 1, 2, 'Engineer', 112000, '2021-05-17'),
+  (5, 'Tom', 'Becker', 'tom.becker@example.com', 1, 2, 'Junior Engineer', 84000, '2023-09-04'),
+  (6, 'Sofia', 'Almeida', 'sofia.almeida@example.com', 2, 1, 'Design Lead', 128000, '2018-02-19'),
+  (7, 'Kenji', 'Tanaka', 'kenji.tanaka@example.com', 2, 6, 'Product Designer', 97000, '2020-11-02'),
+  (8, 'Grace', 'Miller', 'grace.miller@example.com', 3, NULL, 'Head of Sales', 150000, '2015-06-22'),
+  (9, 'Omar', 'Haddad', 'omar.haddad@example.com', 3, 8, 'Account Executive', 91000, '2020-04-13'),
+  (10, 'Chloe', 'Martin', 'chloe.martin@example.com', 3, 8, 'Account Executive', 88000, '2022-01-10'),
+  (11, 'Jose', 'Reyes', 'jose.reyes@example.com', 4, NULL, 'Support Manager', 76000, '2018-07-30'),
+  (12, 'Ana', 'Santos', 'ana.santos@example.com', 4, 11, 'Support Specialist', 52000, '2021-03-08'),
+  (13, 'Ben', 'Cruz', 'ben.cruz@example.com', 4, 11, 'Support Specialist', 50000, '2023-02-27'),
+  (14, 'Helen', 'Clarke', 'helen.clarke@example.com', 5, NULL, 'Finance Director', 140000, '2016-10-03'),
+  (15, 'Ravi', 'Kapoor', 'ravi.kapoor@example.com', 5, 14, 'Accountant', 79000, '2019-09-16'),
+  (16, 'Nina', 'Petrova', 'nina.petrova@example.com', NULL, NULL, 'Contractor', 65000, '2024-01-15');
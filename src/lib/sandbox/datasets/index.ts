@@ -0,0 +1,35 @@
+import employees from './employees.sql?raw';
+import orders from './orders.sql?raw';
+import movies from './movies.sql?raw';
+
+export interface Dataset {
+  id: string;
+  name: string;
+  description: string;
+  seed: string;
+}
+
+export const datasets: Dataset[] = [
+  {
+    id: 'employees',
+    name: 'Employees',
+    description: 'Departments, staff, managers and salaries',
+    seed: employees,
+  },
+  {
+    id: 'orders',
+    name: 'Orders',
+    description: 'Customers, products, orders and order items',
+    seed: orders,
+  },
+  {
+    id: 'movies',
+    name: 'Movies',
+    description: 'Films and the reviews people left for them',
+    seed: movies,
+  },
+];
+
+export const DEFAULT_DATASET = datasets[0].id;
+
+export const getDataset = (id: string) => datasets.find((dataset) => dataset.id === id) ?? datasets[0];
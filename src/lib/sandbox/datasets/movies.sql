@@ -0,0 +1,45 @@
+CREATE TABLE movies (
+  id INTEGER PRIMARY KEY,
+  title TEXT NOT NULL,
+  year INTEGER NOT NULL,
+  genre TEXT NOT NULL,
+  runtime_minutes INTEGER NOT NULL,
+  director TEXT NOT NULL
+);
+
+CREATE TABLE reviews (
+  id INTEGER PRIMARY KEY,
+  movie_id INTEGER NOT NULL REFERENCES movies(id),
+  reviewer TEXT NOT NULL,
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  reviewed_on TEXT NOT NULL
+);
+
+INSERT INTO movies (id, title, year, genre, runtime_minutes, director) VALUES
+  (1, 'Spirited Away', 2001, 'Animation', 125, 'Hayao Miyazaki'),
+  (2, 'Parasite', 2019, 'Thriller', 132, 'Bong Joon-ho'),
+  (3, 'The Matrix', 1999, 'Sci-Fi', 136, 'Lana Wachowski'),
+  (4, 'Amélie', 2001, 'Comedy', 122, 'Jean-Pierre Jeunet'),
+  (5, 'Arrival', 2016, 'Sci-Fi', 116, 'Denis Villeneuve'),
+  (6, 'Coco', 2017, 'Animation', 105, 'Lee Unkrich'),
+  (7, 'Whiplash', 2014, 'Drama', 106, 'Damien Chazelle'),
+  (8, 'Dune', 2021, 'Sci-Fi', 155, 'Denis Villeneuve'),
+  (9, 'Knives Out', 2019, 'Mystery', 130, 'Rian Johnson'),
+  (10, 'Paddington 2', 2017, 'Comedy', 103, 'Paul King');
+
+INSERT INTO reviews (id, movie_id, reviewer, rating, reviewed_on) VALUES
+  (1, 1, 'mika', 5, '2023-01-04'),
+  (2, 1, 'jordan', 5, '2023-02-11'),
+  (3, 2, 'mika', 5, '2023-03-18'),
+  (4, 2, 'sam', 4, '2023-03-20'),
+  (5, 3, 'jordan', 4, '2023-04-02'),
+  (6, 3, 'alex', 5, '2023-04-09'),
+  (7, 4, 'sam', 3, '2023-05-14'),
+  (8, 5, 'alex', 4, '2023-06-01'),
+  (9, 5, 'mika', 5, '2023-06-03'),
+  (10, 6, 'jordan', 4, '2023-07-22'),
+  (11, 7, 'sam', 5, '2023-08-30'),
+  (12, 8, 'alex', 4, '2023-09-15'),
+  (13, 8, 'jordan', 3, '2023-09-16'),
+  (14, 9, 'mika', 4, '2023-10-28'),
+  (15, 10, 'sam', 5, '2023-12-24');
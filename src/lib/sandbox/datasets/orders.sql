@@ -0,0 +1,70 @@
+CREATE TABLE customers (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  country TEXT NOT NULL,
+  signed_up TEXT NOT NULL
+);
+
+CREATE TABLE products (
+  id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  price REAL NOT NULL
+);
+
+CREATE TABLE orders (
+  id INTEGER PRIMARY KEY,
+  customer_id INTEGER NOT NULL REFERENCES customers(id),
+  ordered_at TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'shipped', 'delivered', 'cancelled'))
+);
+
+CREATE TABLE order_items (
+  order_id INTEGER NOT NULL REFERENCES orders(id),
+  product_id INTEGER NOT NULL REFERENCES products(id),
+  quantity INTEGER NOT NULL,
+  PRIMARY KEY (order_id, product_id)
+);
+
+INSERT INTO customers (id, name, country, signed_up) VALUES
+  (1, 'Northwind Traders', 'USA', '2022-01-12'),
+  (2, 'Blue Harbor Cafe', 'Canada', '2022-03-05'),
+  (3, 'Kaffeehaus Wien', 'Austria', '2022-07-19'),
+  (4, 'Sakura Books', 'Japan', '2023-02-01'),
+  (5, 'Pampa Outdoor', 'Argentina', '2023-05-23'),
+  (6, 'Fjord Design', 'Norway', '2023-11-30'),
+  (7, 'Lagos Tech Hub', 'Nigeria', '2024-04-08');
+
+INSERT INTO products (id, name, category, price) VALUES
+  (1, 'Mechanical Keyboard', 'Electronics', 89.99),
+  (2, 'USB-C Hub', 'Electronics', 34.50),
+  (3, '27" Monitor', 'Electronics', 249.00),
+  (4, 'Standing Desk', 'Furniture', 399.00),
+  (5, 'Ergonomic Chair', 'Furniture', 279.00),
+  (6, 'Notebook (A5)', 'Stationery', 6.75),
+  (7, 'Fountain Pen', 'Stationery', 42.00),
+  (8, 'Desk Lamp', 'Furniture', 58.90);
+
+INSERT INTO orders (id, customer_id, ordered_at, status) VALUES
+  (1, 1, '2024-01-03', 'delivered'),
+  (2, 2, '2024-01-17', 'delivered'),
+  (3, 1, '2024-02-09', 'delivered'),
+  (4, 3, '2024-02-21', 'cancelled'),
+  (5, 4, '2024-03-02', 'delivered'),
+  (6, 5, '2024-03-15', 'shipped'),
+  (7, 1, '2024-04-01', 'shipped'),
+  (8, 6, '2024-04-11', 'pending'),
+  (9, 2, '2024-04-12', 'pending'),
+  (10, 4, '2024-04-20', 'delivered');
+
+INSERT INTO order_items (order_id, product_id, quantity) VALUES
+  (1, 1, 2), (1, 2, 2),
+  (2, 6, 20), (2, 7, 1),
+  (3, 3, 4), (3, 8, 4),
+  (4, 4, 1),
+  (5, 6, 50), (5, 7, 5),
+  (6, 5, 2), (6, 8, 1),
+  (7, 1, 1), (7, 3, 1), (7, 4, 1),
+  (8, 4, 3), (8, 5, 3),
+  (9, 2, 10),
+  (10, 7, 2);
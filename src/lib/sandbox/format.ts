@@ -0,0 +1,41 @@
+const MAX_DEPTH = 3;
+const MAX_ITEMS = 50;
+
+/** Renders a value roughly the way browser devtools would print it in the console. */
+export const formatValue = (value: unknown, depth = 0, seen = new WeakSet<object>()): string => {
+  if (typeof value === 'string') return depth === 0 ? value : JSON.stringify(value);
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value === 'symbol') return value.toString();
+  if (typeof value === 'function') return `[Function: ${value.name || '(anonymous)'}]`;
+  if (value === null || typeof value !== 'object') return String(value);
+
+  if (seen.has(value)) return '[Circular]';
+  if (value instanceof Error) return value.stack ?? `${value.name}: ${value.message}`;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof RegExp) return value.toString();
+  if (depth >= MAX_DEPTH) return Array.isArray(value) ? '[Array]' : '[Object]';
+
+  seen.add(value);
+  const nested = (item: unknown) => formatValue(item, depth + 1, seen);
+  const truncate = (items: string[], total: number) =>
+    total > MAX_ITEMS ? [...items, `... ${total - MAX_ITEMS} more items`] : items;
+
+  let formatted: string;
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ITEMS).map(nested);
+    formatted = `[${truncate(items, value.length).join(', ')}]`;
+  } else if (value instanceof Map) {
+    const items = [...value].slice(0, MAX_ITEMS).map(([k, v]) => `${nested(k)} => ${nested(v)}`);
+    formatted = `Map(${value.size}) {${truncate(items, value.size).join(', ')}}`;
+  } else if (value instanceof Set) {
+    const items = [...value].slice(0, MAX_ITEMS).map(nested);
+    formatted = `Set(${value.size}) {${truncate(items, value.size).join(', ')}}`;
+  } else {
+    const entries = Object.entries(value);
+    const items = entries.slice(0, MAX_ITEMS).map(([k, v]) => `${k}: ${nested(v)}`);
+    const name = value.constructor && value.constructor !== Object ? `${value.constructor.name} ` : '';
+    formatted = items.length ? `${name}{ ${truncate(items, entries.length).join(', ')} }` : `${name}{}`;
+  }
+  seen.delete(value);
+  return formatted;
+};
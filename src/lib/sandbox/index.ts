@@ -0,0 +1,32 @@
+import { runJavaScript } from './javascript';
+import { DEFAULT_RUN_LIMITS, withLimits } from './limits';
+import { runPython } from './python';
+import { runSql, runSqlOnFreshCopy } from './sql';
+import { DEFAULT_DATASET } from './datasets';
+import type { RunLimits, Runner } from './types';
+
+export * from './types';
+export { DEFAULT_RUN_LIMITS } from './limits';
+export { datasets, type Dataset } from './datasets';
+export { getSchema, resetDatabase, getCurrentDataset, onSchemaChange } from './sql';
+
+const runners: Record<string, Runner> = {
+  javascript: runJavaScript,
+  python: runPython,
+  database: runSql,
+};
+
+/** Returns the runner for `language`, wrapped so it is stopped when it exceeds `limits`. */
+export const getRunner = (language: string, limits: RunLimits = DEFAULT_RUN_LIMITS): Runner | undefined => {
+  const runner = runners[language];
+  return runner && withLimits(runner, limits);
+};
+
+/**
+ * Like `getRunner`, but SQL runs against a fresh copy of `dataset`, so checking an answer neither
+ * sees nor changes whatever the learner did to their own database.
+ */
+export const getIsolatedRunner = (language: string, limits: RunLimits = DEFAULT_RUN_LIMITS, dataset = DEFAULT_DATASET) =>
+  language === 'database' ? withLimits(runSqlOnFreshCopy(dataset), limits) : getRunner(language, limits);
+
+export const canRun = (language: string) => language in runners;
@@ -0,0 +1,36 @@
+import { createSettler } from './settle';
+import type { Runner, WorkerMessage } from './types';
+
+/**
+ * Runs a script in a throwaway module worker so user code never touches the page's
+ * DOM or globals. The worker is kept alive after the script returns so timers and
+ * promises can keep logging until the run is cancelled.
+ */
+export const runJavaScript: Runner = (input, io) => {
+  const worker = new Worker(new URL('./javascript.worker.ts', import.meta.url), { type: 'module' });
+  const { done, settle } = createSettler();
+
+  worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+    const message = event.data;
+    if (message.type === 'output') {
+      io.output(message.output);
+    } else if (message.type === 'done') {
+      settle(message.status);
+    }
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    io.output({ level: 'error', text: `Sandbox failed to start: ${event.message}` });
+    settle('error');
+  };
+  io.phase('running');
+  worker.postMessage(input);
+
+  return {
+    done,
+    cancel: () => {
+      worker.terminate();
+      settle('cancelled');
+    },
+  };
+};
@@ -0,0 +1,127 @@
+import { transform } from 'sucrase';
+import { isRelativeSpecifier, resolveImport } from '@/lib/project/paths';
+import { formatValue } from './format';
+import type { ConsoleLevel, ConsoleOutput, RunInput, WorkerMessage } from './types';
+
+const ctx = self as unknown as Worker;
+const EXTENSIONS = ['.js', '.mjs', '.cjs', '.json'];
+
+interface Module {
+  exports: unknown;
+}
+
+type Location = Pick<ConsoleOutput, 'file' | 'line'>;
+
+let files: Record<string, string> = {};
+
+const post = (message: WorkerMessage) => ctx.postMessage(message);
+
+const emit = (level: ConsoleLevel, args: unknown[], location: Location = {}) => {
+  const output: ConsoleOutput = {
+    level,
+    text: args.map((arg) => (typeof arg === 'string' ? arg : formatValue(arg))).join(' '),
+    ...location,
+  };
+  post({ type: 'output', output });
+};
+
+/** Finds the innermost stack frame that belongs to one of the project's files. */
+const locate = (stack?: string): Location => {
+  for (const [, file, line] of stack?.matchAll(/([^\s()@]+):(\d+):\d+/g) ?? []) {
+    if (file in files) return { file, line: Number(line) };
+  }
+  return {};
+};
+
+const reportError = (error: unknown) => {
+  if (error instanceof Error) {
+    // Compile errors carry their own location; runtime errors are located through the stack.
+    const { file, line } = error as Error & Location;
+    const location = file ? { file, line } : locate(error.stack);
+    emit('error', [`Uncaught ${error.name}: ${error.message}`], location);
+  } else {
+    emit('error', ['Uncaught', error]);
+  }
+};
+
+const levels: ConsoleLevel[] = ['log', 'info', 'warn', 'error'];
+for (const level of levels) {
+  console[level] = (...args: unknown[]) => emit(level, args);
+}
+console.debug = (...args: unknown[]) => emit('log', args);
+console.table = (data: unknown) => emit('log', [data]);
+
+ctx.addEventListener('error', (event) => {
+  event.preventDefault();
+  reportError(event.error ?? event.message);
+});
+
+ctx.addEventListener('unhandledrejection', (event: PromiseRejectionEvent) => {
+  event.preventDefault();
+  reportError(event.reason);
+});
+
+const usesModuleSyntax = (code: string) => /^\s*(import|export)\b/m.test(code);
+
+/** ES module syntax is compiled to CommonJS; line numbers are preserved so stacks still map. */
+const compile = (path: string) => {
+  const source = files[path];
+  if (!usesModuleSyntax(source)) return source;
+  try {
+    return transform(source, { transforms: ['imports'], filePath: path }).code;
+  } catch (error) {
+    const { message, loc } = error as Error & { loc?: { line: number } };
+    throw Object.assign(new SyntaxError(message.replace(/^Error transforming [^:]+: /, '')), { file: path, line: loc?.line });
+  }
+};
+
+const evaluate = (path: string, code: string) => (0, eval)(`${code}\n//# sourceURL=${path}`);
+
+const createRequire = (modules: Map<string, Module>, from: string) => (specifier: string) => {
+  const path = resolveImport(files, from, specifier, EXTENSIONS);
+  if (!path) {
+    throw new Error(
+      isRelativeSpecifier(specifier)
+        ? `Cannot find module '${specifier}' imported from ${from}`
+        : `Cannot import '${specifier}': only files in this project can be imported`,
+    );
+  }
+  return load(modules, path);
+};
+
+const load = (modules: Map<string, Module>, path: string) => {
+  const cached = modules.get(path);
+  if (cached) return cached.exports;
+
+  const module: Module = { exports: {} };
+  modules.set(path, module);
+  if (path.endsWith('.json')) {
+    module.exports = JSON.parse(files[path]);
+    return module.exports;
+  }
+  const factory = evaluate(path, `(function (require, module, exports) {${compile(path)}\n})`);
+  factory(createRequire(modules, path), module, module.exports);
+  return module.exports;
+};
+
+ctx.onmessage = (event: MessageEvent<RunInput>) => {
+  files = event.data.files;
+  const { entry } = event.data;
+  const modules = new Map<string, Module>();
+  try {
+    // The entry runs as a plain script (indirect eval, global scope) so the value of its
+    // last expression can be echoed like a REPL would.
+    const scope = self as unknown as Record<string, unknown>;
+    const module: Module = { exports: {} };
+    modules.set(entry, module);
+    Object.assign(scope, { require: createRequire(modules, entry), module, exports: module.exports });
+    const result = evaluate(entry, compile(entry));
+    if (result !== undefined) {
+      emit('result', [formatValue(result)]);
+    }
+    post({ type: 'done', status: 'completed' });
+  } catch (error) {
+    reportError(error);
+    post({ type: 'done', status: 'error' });
+  }
+};
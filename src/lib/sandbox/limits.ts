@@ -0,0 +1,79 @@
+import { createSettler } from './settle';
+import type { RunLimits, Runner } from './types';
+
+export const DEFAULT_RUN_LIMITS: RunLimits = {
+  timeoutMs: 5000,
+  maxOutputEntries: 1000,
+  maxEntryLength: 10_000,
+};
+
+const formatSeconds = (ms: number) => `${Number((ms / 1000).toFixed(1))} second${ms === 1000 ? '' : 's'}`;
+
+/**
+ * Wraps a runner so runaway programs can't hang the tab: the run is terminated once it
+ * exceeds its time budget or floods the console, and the learner is told why.
+ */
+export const withLimits = (runner: Runner, limits: RunLimits): Runner => (input, io) => {
+  const { done, settle, isSettled } = createSettler();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let outputCount = 0;
+
+  const handleDeadline = () => {
+    const overran = !isSettled();
+    if (overran) settle('timeout');
+    // The sandbox goes even if the script itself already returned, so stray timers and
+    // intervals can't keep running in the background.
+    handle.cancel();
+    if (overran) {
+      io.output({
+        level: 'error',
+        text:
+          `Your code ran for more than ${formatSeconds(limits.timeoutMs)} and was stopped. ` +
+          'Did you forget to update your loop variable?',
+      });
+    }
+  };
+
+  const handleFlood = () => {
+    clearTimeout(timer);
+    settle('error');
+    handle.cancel();
+    io.output({
+      level: 'error',
+      text:
+        `Your program printed more than ${limits.maxOutputEntries} lines, so it was stopped. ` +
+        'Is something printing inside a loop that never ends?',
+    });
+  };
+
+  const handle = runner(input, {
+    phase: (phase) => {
+      io.phase(phase);
+      if (phase === 'running' && timer === undefined) {
+        timer = setTimeout(handleDeadline, limits.timeoutMs);
+      }
+    },
+    output: (output) => {
+      if (outputCount > limits.maxOutputEntries) return;
+      if (++outputCount > limits.maxOutputEntries) {
+        handleFlood();
+        return;
+      }
+      const overflow = output.text.length - limits.maxEntryLength;
+      const text =
+        overflow > 0 ? `${output.text.slice(0, limits.maxEntryLength)}… (${overflow} more characters)` : output.text;
+      io.output({ ...output, text });
+    },
+  });
+
+  handle.done.then(settle);
+
+  return {
+    done,
+    cancel: () => {
+      clearTimeout(timer);
+      settle('cancelled');
+      handle.cancel();
+    },
+  };
+};
@@ -0,0 +1,64 @@
+import { createSettler } from './settle';
+import type { Runner, WorkerMessage } from './types';
+
+let worker: Worker | null = null;
+
+const getWorker = () => {
+  worker ??= new Worker(new URL('./python.worker.ts', import.meta.url), { type: 'module' });
+  return worker;
+};
+
+// Runs from the editor, the grader and lesson snippets all share the worker, so they take turns:
+// each one starts once the run before it has settled.
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs Python through Pyodide (CPython compiled to WebAssembly) in a long-lived worker,
+ * so the runtime is only downloaded and booted once. Cancelling a run mid-flight has to
+ * terminate that worker, which means the next run boots the runtime again.
+ */
+export const runPython: Runner = (input, io) => {
+  const { done, settle, isSettled } = createSettler();
+  let current: Worker | null = null;
+
+  const start = () => {
+    // Cancelled while it was waiting for its turn.
+    if (isSettled()) return;
+    const target = getWorker();
+    current = target;
+    target.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'phase') {
+        io.phase(message.phase);
+      } else if (message.type === 'output') {
+        io.output(message.output);
+      } else {
+        settle(message.status);
+      }
+    };
+    target.onerror = (event) => {
+      event.preventDefault();
+      io.output({ level: 'error', text: `Python runtime crashed: ${event.message}` });
+      target.terminate();
+      if (worker === target) worker = null;
+      settle('error');
+    };
+    target.postMessage(input);
+  };
+
+  queue = queue.then(() => {
+    start();
+    return done;
+  });
+
+  return {
+    done,
+    cancel: () => {
+      if (isSettled()) return;
+      settle('cancelled');
+      if (!current) return;
+      current.terminate();
+      if (worker === current) worker = null;
+    },
+  };
+};
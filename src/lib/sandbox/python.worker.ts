@@ -0,0 +1,97 @@
+import { loadPyodide, type PyodideInterface } from 'pyodide';
+import { dirname } from '@/lib/project/paths';
+import { formatValue } from './format';
+import { cleanTraceback } from './traceback';
+import type { ConsoleLevel, ConsoleOutput, RunInput, WorkerMessage } from './types';
+
+const ctx = self as unknown as Worker;
+const PROJECT_DIR = '/home/pyodide/project';
+
+const post = (message: WorkerMessage) => ctx.postMessage(message);
+const emit = (level: ConsoleLevel, text: string, location: Pick<ConsoleOutput, 'file' | 'line'> = {}) =>
+  post({ type: 'output', output: { level, text, ...location } });
+
+let runtime: Promise<PyodideInterface> | null = null;
+
+// The runtime is fetched on the first run only; the worker stays alive between runs.
+const getRuntime = () => {
+  if (!runtime) {
+    post({ type: 'phase', phase: 'loading' });
+    runtime = loadPyodide().then((pyodide) => {
+      pyodide.setStdout({ batched: (text) => emit('log', text) });
+      pyodide.setStderr({ batched: (text) => emit('error', text) });
+      pyodide.setStdin({ error: true });
+      return pyodide;
+    });
+  }
+  return runtime;
+};
+
+/**
+ * Mirrors the project into the virtual file system so `import utils` finds `utils.py`,
+ * and forgets modules imported by earlier runs so edits to them are picked up.
+ */
+const writeProject = (pyodide: PyodideInterface, files: Record<string, string>) => {
+  pyodide.runPython(`
+import importlib, os, shutil, sys
+for name, module in list(sys.modules.items()):
+    if (getattr(module, "__file__", None) or "").startswith("${PROJECT_DIR}/"):
+        del sys.modules[name]
+shutil.rmtree("${PROJECT_DIR}", ignore_errors=True)
+os.makedirs("${PROJECT_DIR}")
+os.chdir("${PROJECT_DIR}")
+if "${PROJECT_DIR}" not in sys.path:
+    sys.path.insert(0, "${PROJECT_DIR}")
+`);
+  for (const [path, content] of Object.entries(files)) {
+    pyodide.FS.mkdirTree(`${PROJECT_DIR}/${dirname(path)}`);
+    pyodide.FS.writeFile(`${PROJECT_DIR}/${path}`, content);
+  }
+  pyodide.runPython('importlib.invalidate_caches()');
+};
+
+const describe = (value: unknown) => {
+  if (value && typeof value === 'object' && 'toString' in value && 'destroy' in value) {
+    const text = String(value);
+    (value as { destroy: () => void }).destroy();
+    return text;
+  }
+  return formatValue(value);
+};
+
+ctx.onmessage = async (event: MessageEvent<RunInput>) => {
+  const { files, entry } = event.data;
+  let pyodide: PyodideInterface;
+  try {
+    pyodide = await getRuntime();
+  } catch (error) {
+    runtime = null;
+    emit('error', `Could not load the Python runtime: ${error instanceof Error ? error.message : error}`);
+    post({ type: 'done', status: 'error' });
+    return;
+  }
+
+  post({ type: 'phase', phase: 'running' });
+  const toProjectPath = (file: string) => {
+    const path = file.startsWith(`${PROJECT_DIR}/`) ? file.slice(PROJECT_DIR.length + 1) : file;
+    return path in files ? path : undefined;
+  };
+  // Every run gets a fresh namespace so variables don't leak between runs.
+  const globals = pyodide.globals.get('dict')();
+  globals.set('__name__', '__main__');
+  try {
+    writeProject(pyodide, files);
+    const result = await pyodide.runPythonAsync(files[entry], { globals, filename: entry });
+    if (result !== undefined && result !== null) {
+      emit('result', describe(result));
+    }
+    post({ type: 'done', status: 'completed' });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const { text, file, line } = cleanTraceback(message, toProjectPath);
+    emit('error', text, { file, line });
+    post({ type: 'done', status: 'error' });
+  } finally {
+    globals.destroy();
+  }
+};
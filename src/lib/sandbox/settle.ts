@@ -0,0 +1,20 @@
+import type { RunStatus } from './types';
+
+/** A run's `done` promise plus a one-shot resolver, so late worker messages can't flip its status. */
+export const createSettler = () => {
+  let resolve: (status: RunStatus) => void;
+  let settled = false;
+  const done = new Promise<RunStatus>((r) => {
+    resolve = r;
+  });
+
+  return {
+    done,
+    isSettled: () => settled,
+    settle: (status: RunStatus) => {
+      if (settled) return;
+      settled = true;
+      resolve(status);
+    },
+  };
+};
@@ -0,0 +1,133 @@
+import { DEFAULT_DATASET } from './datasets';
+import { createSettler } from './settle';
+import type { Runner, SqlCommand, SqlResponse, TableSchema } from './types';
+
+type Pending = (response: SqlResponse) => void;
+
+// A worker and the requests waiting on it. Dropping one fails whatever it was still working on;
+// the next request starts a new worker.
+interface Connection {
+  send: (request: SqlCommand, onResponse: Pending) => void;
+  request: <T extends SqlResponse['type']>(message: SqlCommand, expected: T) => Promise<Extract<SqlResponse, { type: T }>>;
+  drop: () => void;
+}
+
+let currentDataset = DEFAULT_DATASET;
+let nextRequestId = 0;
+const schemaListeners = new Set<() => void>();
+
+const notifySchemaChange = () => schemaListeners.forEach((listener) => listener());
+
+const connect = (onStart?: (connection: Connection) => void): Connection => {
+  let worker: Worker | null = null;
+  const pending = new Map<number, Pending>();
+
+  const getWorker = () => {
+    if (worker) return worker;
+    const created = new Worker(new URL('./sql.worker.ts', import.meta.url), { type: 'module' });
+    created.onmessage = (event: MessageEvent<SqlResponse>) => {
+      const response = event.data;
+      const onResponse = pending.get(response.id);
+      // Anything but output or a phase change is the last response to its request.
+      if (response.type !== 'output' && response.type !== 'phase') pending.delete(response.id);
+      onResponse?.(response);
+    };
+    worker = created;
+    onStart?.(connection);
+    return created;
+  };
+
+  const send = (message: SqlCommand, onResponse: Pending) => {
+    const id = nextRequestId++;
+    pending.set(id, onResponse);
+    getWorker().postMessage({ ...message, id });
+  };
+
+  const connection: Connection = {
+    send,
+    request: (message, expected) =>
+      new Promise((resolve, reject) => {
+        send(message, (response) => {
+          if (response.type === expected) {
+            resolve(response as Extract<SqlResponse, { type: typeof expected }>);
+          } else {
+            reject(new Error(response.type === 'failed' ? response.error : `Unexpected ${response.type} response`));
+          }
+        });
+      }),
+    drop: () => {
+      worker?.terminate();
+      worker = null;
+      for (const [id, onResponse] of pending) {
+        onResponse({ id, type: 'failed', error: 'The database was reset' });
+      }
+      pending.clear();
+    },
+  };
+  return connection;
+};
+
+// The learner's database. A fresh worker starts empty, so it is seeded with whichever dataset the
+// learner picked last.
+const learner = connect((connection) => {
+  connection.request({ type: 'load', dataset: currentDataset }, 'loaded').catch(() => undefined);
+});
+
+// Throwaway copies get a worker of their own, so stopping one never takes the learner's database with it.
+const scratch = connect();
+
+const runIn = (dataset: string | undefined): Runner => ({ files, entry }, io) => {
+  const { done, settle, isSettled } = createSettler();
+  const connection = dataset ? scratch : learner;
+  connection.send({ type: 'run', code: files[entry], dataset }, (response) => {
+    if (response.type === 'phase') {
+      io.phase(response.phase);
+    } else if (response.type === 'output') {
+      io.output({ file: entry, ...response.output });
+    } else if (response.type === 'done') {
+      settle(response.status);
+      if (!dataset) notifySchemaChange();
+    } else if (response.type === 'failed') {
+      io.output({ level: 'error', text: `${response.error}, so this run was stopped.` });
+      settle('error');
+    }
+  });
+
+  return {
+    done,
+    cancel: () => {
+      if (isSettled()) return;
+      // SQLite can't be interrupted from outside, so the worker goes, and with it whatever database it held.
+      settle('cancelled');
+      connection.drop();
+      if (!dataset) notifySchemaChange();
+    },
+  };
+};
+
+/**
+ * Runs SQL against an in-memory SQLite database (sql.js) that lives in a worker and keeps
+ * its contents between runs, so learners can INSERT in one run and SELECT in the next.
+ */
+export const runSql = runIn(undefined);
+
+/** Runs SQL against a throwaway copy of `dataset`, leaving the learner's database as it is. */
+export const runSqlOnFreshCopy = (dataset: string): Runner => runIn(dataset);
+
+export const getSchema = async (): Promise<TableSchema[]> => (await learner.request({ type: 'schema' }, 'schema')).tables;
+
+/** Throws away every change and reloads the seed data for `dataset` (the current one by default). */
+export const resetDatabase = async (dataset = currentDataset) => {
+  currentDataset = dataset;
+  await learner.request({ type: 'load', dataset }, 'loaded');
+  notifySchemaChange();
+};
+
+export const getCurrentDataset = () => currentDataset;
+
+export const onSchemaChange = (listener: () => void) => {
+  schemaListeners.add(listener);
+  return () => {
+    schemaListeners.delete(listener);
+  };
+};
@@ -0,0 +1,144 @@
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+import wasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+import { getDataset, DEFAULT_DATASET } from './datasets';
+import type { CellValue, ConsoleOutput, SqlRequest, SqlResponse, TableSchema } from './types';
+
+const ctx = self as unknown as Worker;
+const MAX_ROWS = 500;
+
+const sqlJs = initSqlJs({ locateFile: () => wasmUrl });
+let db: Database | null = null;
+
+const post = (response: SqlResponse) => ctx.postMessage(response);
+
+const load = async (datasetId: string) => {
+  const SQL = await sqlJs;
+  db?.close();
+  db = new SQL.Database();
+  db.run('PRAGMA foreign_keys = ON;');
+  db.exec(getDataset(datasetId).seed);
+  return db;
+};
+
+const getDb = async () => db ?? load(DEFAULT_DATASET);
+
+const scratch = async (datasetId: string) => {
+  const SQL = await sqlJs;
+  const database = new SQL.Database();
+  database.run('PRAGMA foreign_keys = ON;');
+  database.exec(getDataset(datasetId).seed);
+  return database;
+};
+
+const toCell = (value: SqlValue): CellValue => (value instanceof Uint8Array ? `<blob ${value.length} bytes>` : value);
+
+const totalChanges = (database: Database) => Number(database.exec('SELECT total_changes()')[0].values[0][0]);
+
+const isWrite = (sql: string) => /^\s*(insert|update|delete|replace)\b/i.test(sql);
+
+const lineAt = (code: string, offset: number) => code.slice(0, offset).split('\n').length;
+
+const run = async (id: number, code: string, dataset?: string) => {
+  const database = dataset ? await scratch(dataset) : await getDb();
+  // Only now does the time limit start, so waiting for SQLite to boot doesn't count against it.
+  post({ id, type: 'phase', phase: 'running' });
+  const emit = (output: ConsoleOutput) => post({ id, type: 'output', output });
+  let statementCount = 0;
+  // Where the statement currently being run starts, so errors can point at its line.
+  let offset = 0;
+
+  const iterator = database.iterateStatements(code);
+  try {
+    for (;;) {
+      const remaining = iterator.getRemainingSQL();
+      offset = code.length - remaining.length + (remaining.length - remaining.trimStart().length);
+      const { value: statement, done } = iterator.next();
+      if (done) break;
+      statementCount++;
+
+      const columns = statement.getColumnNames();
+      if (columns.length === 0) {
+        const sql = statement.getSQL();
+        const before = totalChanges(database);
+        statement.run();
+        statement.free();
+        const changed = totalChanges(database) - before;
+        const text = changed > 0 || isWrite(sql) ? `${changed} row${changed === 1 ? '' : 's'} affected` : 'Statement executed';
+        emit({ level: 'system', text, line: lineAt(code, offset) });
+        continue;
+      }
+
+      const rows: CellValue[][] = [];
+      let total = 0;
+      while (statement.step()) {
+        total++;
+        if (rows.length < MAX_ROWS) rows.push(statement.get().map(toCell));
+      }
+      statement.free();
+      emit({
+        level: 'result',
+        text: `${total} row${total === 1 ? '' : 's'}`,
+        line: lineAt(code, offset),
+        table: { columns, rows, omitted: total - rows.length },
+      });
+    }
+    if (statementCount === 0) {
+      emit({ level: 'system', text: 'Nothing to run. Write a SQL statement such as SELECT * FROM employees;' });
+    }
+    post({ id, type: 'done', status: 'completed' });
+  } catch (error) {
+    emit({
+      level: 'error',
+      text: `SQL error: ${error instanceof Error ? error.message : error}`,
+      line: lineAt(code, offset),
+    });
+    post({ id, type: 'done', status: 'error' });
+  } finally {
+    if (dataset) database.close();
+  }
+};
+
+const schema = async (): Promise<TableSchema[]> => {
+  const database = await getDb();
+  const [result] = database.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name");
+  const names = (result?.values ?? []).map(([name]) => String(name));
+
+  return names.map((name) => {
+    const quoted = `"${name.replace(/"/g, '""')}"`;
+    const [info] = database.exec(`PRAGMA table_info(${quoted})`);
+    const [count] = database.exec(`SELECT COUNT(*) FROM ${quoted}`);
+    return {
+      name,
+      // table_info columns: cid, name, type, notnull, dflt_value, pk
+      columns: (info?.values ?? []).map((row) => ({
+        name: String(row[1]),
+        type: String(row[2] || 'ANY'),
+        notNull: row[3] === 1,
+        primaryKey: Number(row[5]) > 0,
+      })),
+      rowCount: Number(count?.values[0][0] ?? 0),
+    };
+  });
+};
+
+ctx.onmessage = async (event: MessageEvent<SqlRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'run') {
+      await run(request.id, request.code, request.dataset);
+    } else if (request.type === 'load') {
+      await load(request.dataset);
+      post({ id: request.id, type: 'loaded' });
+    } else {
+      post({ id: request.id, type: 'schema', tables: await schema() });
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (request.type === 'run') {
+      post({ id: request.id, type: 'output', output: { level: 'error', text: `Could not start SQLite: ${message}` } });
+      post({ id: request.id, type: 'done', status: 'error' });
+    } else {
+      post({ id: request.id, type: 'failed', error: message });
+    }
+  }
+};
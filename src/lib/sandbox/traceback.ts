@@ -0,0 +1,33 @@
+const FRAME = /^ {2}File "(.+?)", line (\d+)/;
+
+/**
+ * Strips Pyodide's own frames out of a Python traceback so learners only see frames from
+ * their project. `toProjectPath` maps a frame's file name to a project path, or returns
+ * `undefined` for files that aren't part of the project. The deepest project frame is
+ * reported as the error location.
+ */
+export const cleanTraceback = (traceback: string, toProjectPath: (file: string) => string | undefined) => {
+  const kept: string[] = [];
+  let file: string | undefined;
+  let line: number | undefined;
+  let skipping = false;
+
+  for (const text of traceback.trimEnd().split('\n')) {
+    const frame = text.match(FRAME);
+    if (frame) {
+      const path = toProjectPath(frame[1]);
+      skipping = path === undefined;
+      if (!skipping) {
+        file = path;
+        line = Number(frame[2]);
+        kept.push(text.replace(frame[1], path));
+        continue;
+      }
+    } else if (!text.startsWith('    ')) {
+      skipping = false;
+    }
+    if (!skipping) kept.push(text);
+  }
+
+  return { text: kept.join('\n'), file, line };
+};
@@ -0,0 +1,93 @@
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'result' | 'system';
+
+export interface ConsoleEntry {
+  id: number;
+  level: ConsoleLevel;
+  text: string;
+  /** Project file the entry points at, when known. */
+  file?: string;
+  /** 1-based line in `file` the entry points at, when known. */
+  line?: number;
+  /** Tabular results, e.g. the rows returned by a SQL query. */
+  table?: ResultTable;
+}
+
+export type ConsoleOutput = Omit<ConsoleEntry, 'id'>;
+
+export type CellValue = string | number | null;
+
+export interface ResultTable {
+  columns: string[];
+  rows: CellValue[][];
+  /** Number of rows left out of `rows` because the result was too large to render. */
+  omitted: number;
+}
+
+export type RunStatus = 'completed' | 'error' | 'cancelled' | 'timeout';
+
+/** `loading` covers fetching and booting a language runtime before user code starts. */
+export type RunPhase = 'loading' | 'running';
+
+export interface RunIO {
+  output: (output: ConsoleOutput) => void;
+  phase: (phase: RunPhase) => void;
+}
+
+export interface RunHandle {
+  /** Resolves once the run has finished, failed or been cancelled. */
+  done: Promise<RunStatus>;
+  cancel: () => void;
+}
+
+export interface RunInput {
+  /** Source files keyed by project-relative path. */
+  files: Record<string, string>;
+  /** The file to execute; the others are only reachable through imports. */
+  entry: string;
+}
+
+export type Runner = (input: RunInput, io: RunIO) => RunHandle;
+
+export interface RunLimits {
+  /** Wall-clock budget for user code, counted from when it starts running (not while a runtime loads). */
+  timeoutMs: number;
+  /** Console entries a single run may produce before it is stopped. */
+  maxOutputEntries: number;
+  /** Longest single console entry, in characters, before it is truncated. */
+  maxEntryLength: number;
+}
+
+/** Messages posted from a sandbox worker back to the page. */
+export type WorkerMessage =
+  | { type: 'phase'; phase: RunPhase }
+  | { type: 'output'; output: ConsoleOutput }
+  | { type: 'done'; status: 'completed' | 'error' };
+
+export interface ColumnSchema {
+  name: string;
+  type: string;
+  primaryKey: boolean;
+  notNull: boolean;
+}
+
+export interface TableSchema {
+  name: string;
+  columns: ColumnSchema[];
+  rowCount: number;
+}
+
+/** A `run` with a `dataset` uses a fresh copy of that dataset instead of the learner's database. */
+export type SqlCommand =
+  | { type: 'run'; code: string; dataset?: string }
+  | { type: 'load'; dataset: string }
+  | { type: 'schema' };
+
+/** Requests the page sends to the SQL worker. Every response echoes the request's `id`. */
+export type SqlRequest = SqlCommand & { id: number };
+
+export type SqlResponse = { id: number } & (
+  | WorkerMessage
+  | { type: 'loaded' }
+  | { type: 'schema'; tables: TableSchema[] }
+  | { type: 'failed'; error: string }
+);
@@ -0,0 +1,64 @@
+import { Brain, Code, Database, Globe, Server, Smartphone, type LucideIcon } from 'lucide-react';
+
+export interface Topic {
+  id: string;
+  name: string;
+  icon: LucideIcon;
+  description: string;
+  difficulty: 'Beginner' | 'Intermediate' | 'Advanced';
+  color: string;
+}
+
+/** Everything the app can teach; topics with content have a course in `@/lib/curriculum`. */
+export const topics: Topic[] = [
+  {
+    id: 'javascript',
+    name: 'JavaScript',
+    icon: Code,
+    description: 'Learn modern JavaScript fundamentals',
+    difficulty: 'Beginner',
+    color: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30',
+  },
+  {
+    id: 'react',
+    name: 'React',
+    icon: Globe,
+    description: 'Build interactive user interfaces',
+    difficulty: 'Intermediate',
+    color: 'bg-blue-500/20 text-blue-300 border-blue-500/30',
+  },
+  {
+    id: 'python',
+    name: 'Python',
+    icon: Brain,
+    description: 'Data science and web development',
+    difficulty: 'Beginner',
+    color: 'bg-green-500/20 text-green-300 border-green-500/30',
+  },
+  {
+    id: 'database',
+    name: 'SQL & Databases',
+    icon: Database,
+    description: 'Master data management',
+    difficulty: 'Intermediate',
+    color: 'bg-purple-500/20 text-purple-300 border-purple-500/30',
+  },
+  {
+    id: 'mobile',
+    name: 'Mobile Dev',
+    icon: Smartphone,
+    description: 'iOS and Android development',
+    difficulty: 'Advanced',
+    color: 'bg-pink-500/20 text-pink-300 border-pink-500/30',
+  },
+  {
+    id: 'backend',
+    name: 'Backend APIs',
+    icon: Server,
+    description: 'Server-side development',
+    difficulty: 'Advanced',
+    color: 'bg-orange-500/20 text-orange-300 border-orange-500/30',
+  },
+];
+
+export const getTopic = (id: string) => topics.find((topic) => topic.id === id) ?? null;
@@ -1,73 +1,223 @@
-import { useState } from 'react';
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
 import { Header } from '@/components/Header';
 import { TopicSelector } from '@/components/TopicSelector';
-import { CodeEditor } from '@/components/CodeEditor';
-import { AIChat } from '@/components/AIChat';
-import { Card } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
-import { Progress } from '@/components/ui/progress';
-import { CheckCircle, Circle, BookOpen, Target } from 'lucide-react';
-
-const codeExamples = {
-  javascript: `// JavaScript Fundamentals
-function greetUser(name) {
-  return \`Hello, \${name}! Welcome to CodeLearner AI.\`;
+import { CodeEditor, type CodeEditorHandle } from '@/components/CodeEditor';
+import { AIChat, type ChatRequestPrompt } from '@/components/AIChat';
+import { OutputConsole } from '@/components/OutputConsole';
+import { SchemaBrowser } from '@/components/SchemaBrowser';
+import { ReactPreview } from '@/components/ReactPreview';
+import { DiffPreviewDialog } from '@/components/DiffPreviewDialog';
+import { CourseProgress } from '@/components/CourseProgress';
+import { LessonView } from '@/components/LessonView';
+import { ExerciseView } from '@/components/ExerciseView';
+import { Button } from '@/components/ui/button';
+import { ToastAction } from '@/components/ui/toast';
+import { PanelLeftOpen } from 'lucide-react';
+import { useCodeRunner } from '@/hooks/use-code-runner';
+import { useDraft } from '@/hooks/use-draft';
+import { useToast } from '@/hooks/use-toast';
+import { useLearningRoute } from '@/hooks/use-learning-route';
+import { useExerciseGrader } from '@/hooks/use-exercise-grader';
+import { defaultFileName, type OpenedFile } from '@/lib/editor/files';
+import { applySuggestion, type ApplyMode } from '@/lib/editor/suggestions';
+import { createProject, type Project, type SourceLocation, type SourceRange } from '@/lib/project';
+import { describeSubject, languageName, type ChatContext, type QuickAction } from '@/lib/ai';
+import { draftKey, loadDraft, saveDraft } from '@/lib/project/drafts';
+import { canGrade, getCourse, getLesson, nextLesson, type Exercise } from '@/lib/curriculum';
+import { lessonPath, topicPath } from '@/lib/routes';
+import NotFound from './NotFound';
+
+/** What the URL has selected; `lessonId` is null for topics without a course yet. */
+interface WorkspaceProps {
+  topic: string;
+  lessonId: string | null;
+  exercise: Exercise | null;
 }
 
-// Example usage
-const userName = "Developer";
-console.log(greetUser(userName));
+// Drafts and chats are kept per exercise while one is open, otherwise per lesson.
+const workspaceKey = ({ topic, lessonId, exercise }: WorkspaceProps) => draftKey(topic, exercise?.id ?? lessonId ?? undefined);
 
-// Try modifying this code!`,
-  react: `// React Component Example
-import React, { useState } from 'react';
+const getStarter = ({ topic, lessonId, exercise }: WorkspaceProps) =>
+  exercise?.starter ?? getLesson(topic, lessonId)?.starter ?? createProject(defaultFileName(topic));
 
-function Counter() {
-  const [count, setCount] = useState(0);
+// The learner's autosaved draft, falling back to the starter code.
+const restoreProject = (selection: WorkspaceProps) => loadDraft(workspaceKey(selection))?.project ?? getStarter(selection);
 
-  return (
-    <div>
-      <h2>Count: {count}</h2>
-      <button onClick={() => setCount(count + 1)}>
-        Increment
-      </button>
-    </div>
-  );
+/** Navigation state for a file opened from another topic that couldn't be saved as a draft. */
+interface OpenedFileState {
+  openedFile?: OpenedFile;
 }
 
-export default Counter;`,
-  python: `# Python Basics
-def calculate_fibonacci(n):
-    """Calculate Fibonacci sequence up to n terms"""
-    sequence = []
-    a, b = 0, 1
-    
-    for i in range(n):
-        sequence.append(a)
-        a, b = b, a + b
-    
-    return sequence
-
-# Try it out
-result = calculate_fibonacci(10)
-print(f"Fibonacci sequence: {result}")`,
-};
+// Keyed on the lesson or exercise, so moving to another one, including with Back, starts from its own saved state.
+const Workspace = (selection: WorkspaceProps) => {
+  const { topic: selectedTopic, lessonId: selectedLessonId, exercise } = selection;
+  const navigate = useNavigate();
+  const location = useLocation();
+  const course = getCourse(selectedTopic);
+  const lesson = getLesson(selectedTopic, selectedLessonId);
+  const [showLesson, setShowLesson] = useState(true);
+  const lessonOpen = lesson !== null && showLesson;
+  const lessonKey = workspaceKey(selection);
 
-const lessons = [
-  { id: 1, title: "Variables and Data Types", completed: true },
-  { id: 2, title: "Functions and Scope", completed: true },
-  { id: 3, title: "Control Flow", completed: false },
-  { id: 4, title: "Objects and Arrays", completed: false },
-  { id: 5, title: "Async Programming", completed: false },
-];
+  const runner = useCodeRunner();
+  const grader = useExerciseGrader(runner.append);
+  const draft = useDraft(lessonKey);
+  // What the editor starts from. Replacing it bumps the version, which remounts the editor.
+  const [initialProject, setInitialProject] = useState(() => {
+    const opened = (location.state as OpenedFileState | null)?.openedFile;
+    return opened ? createProject(opened.name, opened.content) : restoreProject(selection);
+  });
+  const [editorVersion, setEditorVersion] = useState(0);
+  const [previewProject, setPreviewProject] = useState(initialProject);
+  const [previewReloadKey, setPreviewReloadKey] = useState(0);
+  const [previewError, setPreviewError] = useState<SourceLocation | null>(null);
+  // What the editor currently shows, for the chat's context; null until the learner edits.
+  const [editorProject, setEditorProject] = useState<Project | null>(null);
+  const [editorSelection, setEditorSelection] = useState<SourceRange | null>(null);
+  const editorRef = useRef<CodeEditorHandle>(null);
+  // A code block from the chat waiting for the learner to confirm its diff.
+  const [suggestion, setSuggestion] = useState<{ code: string; mode: ApplyMode } | null>(null);
+  const [chatRequest, setChatRequest] = useState<ChatRequestPrompt | null>(null);
+  const { toast } = useToast();
 
-const Index = () => {
-  const [selectedTopic, setSelectedTopic] = useState<string | null>('javascript');
-  const completedLessons = lessons.filter(lesson => lesson.completed).length;
-  const progressPercentage = (completedLessons / lessons.length) * 100;
+  const isReactTopic = selectedTopic === 'react';
+  const lastError = [...runner.entries].reverse().find((entry) => entry.level === 'error' && entry.file && entry.line);
+  const errorLocation = isReactTopic ? previewError : lastError ? { file: lastError.file, line: lastError.line } : null;
+  const currentProject = editorProject ?? initialProject;
+  const chatContext = useMemo<ChatContext | null>(
+    () =>
+      selectedTopic && {
+        language: selectedTopic,
+        project: currentProject,
+        activeFile: editorSelection?.file ?? currentProject.entry,
+        selection: editorSelection,
+        output: runner.entries,
+      },
+    [selectedTopic, currentProject, editorSelection, runner.entries],
+  );
+
+  const suggestionFile = editorSelection?.file ?? currentProject.entry;
+  const suggestionBefore = currentProject.files[suggestionFile] ?? '';
+  const suggestionResult = useMemo(() => {
+    if (!suggestion) return null;
+    // Without a known cursor, inserted code goes at the end of the file.
+    const range = editorSelection ?? { from: suggestionBefore.length, to: suggestionBefore.length };
+    try {
+      return { after: applySuggestion(suggestionBefore, suggestion.code, suggestion.mode, range), error: null };
+    } catch (error) {
+      return { after: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [suggestion, suggestionBefore, editorSelection]);
+
+  const handleApplyCode = useCallback((code: string, mode: ApplyMode) => setSuggestion({ code, mode }), []);
+  // A lesson snippet replaces the open file, through the same diff preview as chat suggestions.
+  const handleOpenSnippet = useCallback((code: string) => setSuggestion({ code, mode: 'patch' }), []);
+
+  const handleAcceptSuggestion = () => {
+    const file = suggestionFile;
+    const before = suggestionBefore;
+    const after = suggestionResult?.after ?? null;
+    // The preview is showing why the suggestion doesn't apply, so there is nothing to accept.
+    if (after === null) return;
+    editorRef.current?.setFile(file, after);
+    setSuggestion(null);
+    toast({
+      title: "Applied to editor",
+      description: `Updated ${file}`,
+      action: (
+        <ToastAction
+          altText="Undo"
+          onClick={() => {
+            // Only undo if the learner hasn't changed the file since, so their edits aren't lost.
+            if (editorRef.current?.getFile(file) === after) {
+              editorRef.current.setFile(file, before);
+            } else {
+              toast({
+                title: "Couldn't undo",
+                description: `${file} has changed since the suggestion was applied`,
+                variant: "destructive",
+              });
+            }
+          }}
+        >
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  const handleQuickAction = (action: QuickAction) => {
+    const file = editorSelection?.file ?? currentProject.entry;
+    setChatRequest((previous) => ({
+      id: (previous?.id ?? 0) + 1,
+      prompt: action.prompt(describeSubject(file, editorSelection), languageName(selectedTopic)),
+    }));
+  };
+
+  const handleTopicSelect = (topicId: string) => navigate(topicPath(topicId));
+
+  const handleProjectChange = (project: Project) => {
+    draft.save(project);
+    setEditorProject(project);
+    if (isReactTopic) setPreviewProject(project);
+  };
+
+  const replaceEditorProject = (project: Project) => {
+    setInitialProject(project);
+    setEditorProject(null);
+    if (isReactTopic) setPreviewProject(project);
+    setEditorVersion((version) => version + 1);
+  };
+
+  const handleReset = () => {
+    draft.discard();
+    runner.clear();
+    replaceEditorProject(getStarter(selection));
+  };
+
+  // Opening e.g. a .py file while on the JavaScript topic switches over to Python.
+  const handleOpenFile = (file: OpenedFile) => {
+    const sameTopic = file.language === selectedTopic;
+    const course = getCourse(file.language);
+    const lessonId = sameTopic ? selectedLessonId : course ? (nextLesson(course)?.id ?? null) : null;
+    const key = sameTopic ? lessonKey : workspaceKey({ topic: file.language, lessonId, exercise: null });
+    // The opened file replaces that lesson's draft, so it survives a reload too.
+    const project = createProject(file.name, file.content);
+    const saved = saveDraft(key, project);
+    if (sameTopic) {
+      replaceEditorProject(project);
+      return;
+    }
+    // Shown even if saving it as a draft failed.
+    const state: OpenedFileState | undefined = saved ? undefined : { openedFile: file };
+    navigate(lessonId ? lessonPath(file.language, lessonId) : topicPath(file.language), { state });
+  };
+
+  // A SQL project is a set of scripts, so Run and Submit use whichever one is open.
+  const runEntry = (project: Project, activeFile: string) => (selectedTopic === 'database' ? activeFile : project.entry);
+
+  const handleSubmit = (project: Project, activeFile: string) => {
+    runner.stop();
+    runner.clear();
+    setShowLesson(true);
+    grader.submit(selectedTopic, exercise, { ...project, entry: runEntry(project, activeFile) });
+  };
+
+  const handleStop = () => {
+    runner.stop();
+    grader.stop();
+  };
 
-  const handleRunCode = (code: string) => {
-    console.log('Running code:', code);
+  const handleRunCode = (project: Project, activeFile: string) => {
+    if (isReactTopic) {
+      // The preview re-renders on every edit; Run just forces a clean remount.
+      runner.clear();
+      setPreviewProject(project);
+      setPreviewReloadKey((key) => key + 1);
+      return;
+    }
+    runner.run(selectedTopic, { files: project.files, entry: runEntry(project, activeFile) });
   };
 
   return (
@@ -75,75 +225,118 @@ const Index = () => {
       <Header />
       
       <main className="container mx-auto px-4 py-6 space-y-6">
-        {!selectedTopic ? (
-          <TopicSelector 
-            selectedTopic={selectedTopic} 
-            onTopicSelect={setSelectedTopic} 
-          />
-        ) : (
-          <>
-            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-[calc(100vh-200px)]">
-              {/* Code Editor */}
-              <div className="lg:col-span-2">
+        <div className={`grid grid-cols-1 ${lessonOpen ? 'lg:grid-cols-4' : 'lg:grid-cols-3'} gap-6 h-[calc(100vh-200px)]`}>
+          {/* Lesson */}
+          {lessonOpen && (
+            <div className="min-h-0">
+              {exercise ? (
+                <ExerciseView
+                  course={course}
+                  lesson={lesson}
+                  exercise={exercise}
+                  report={grader.report}
+                  isGrading={grader.isGrading}
+                  onHide={() => setShowLesson(false)}
+                />
+              ) : (
+                <LessonView course={course} lesson={lesson} onOpenInEditor={handleOpenSnippet} onHide={() => setShowLesson(false)} />
+              )}
+            </div>
+          )}
+
+          {/* Code Editor */}
+          <div className="lg:col-span-2 flex flex-col gap-4 min-h-0">
+            <div className="flex-1 min-h-0 flex gap-4">
+              {lesson && !showLesson && (
+                <Button variant="outline" size="sm" className="h-auto shrink-0 px-2" onClick={() => setShowLesson(true)} title={exercise ? 'Show exercise' : 'Show lesson'}>
+                  <PanelLeftOpen className="w-4 h-4" />
+                </Button>
+              )}
+              {selectedTopic === 'database' && (
+                <div className="w-56 shrink-0 hidden md:block">
+                  <SchemaBrowser />
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
                 <CodeEditor
+                  ref={editorRef}
+                  key={editorVersion}
                   language={selectedTopic}
-                  initialCode={codeExamples[selectedTopic as keyof typeof codeExamples]}
+                  initialProject={initialProject}
+                  onOpenFile={handleOpenFile}
                   onRunCode={handleRunCode}
+                  runPhase={runner.phase}
+                  onSubmit={exercise && canGrade(selectedTopic, exercise) ? handleSubmit : undefined}
+                  submitPhase={grader.phase}
+                  onProjectChange={handleProjectChange}
+                  highlight={errorLocation}
+                  saveStatus={draft.status}
+                  onReset={handleReset}
+                  onSelectionChange={setEditorSelection}
+                  onQuickAction={handleQuickAction}
                 />
               </div>
-
-              {/* AI Chat */}
-              <div>
-                <AIChat />
-              </div>
+              {isReactTopic && (
+                <div className="flex-1 min-w-0">
+                  <ReactPreview
+                    project={previewProject}
+                    reloadKey={previewReloadKey}
+                    onErrorLocationChange={setPreviewError}
+                    onConsole={runner.append}
+                  />
+                </div>
+              )}
             </div>
+            <div className="h-48 shrink-0">
+              <OutputConsole
+                entries={runner.entries}
+                phase={runner.phase ?? grader.phase}
+                onClear={runner.clear}
+                onStop={handleStop}
+              />
+            </div>
+          </div>
 
-            {/* Learning Progress Sidebar */}
-            <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
-              <div className="lg:col-span-1">
-                <Card className="p-6 bg-card border-border shadow-card">
-                  <div className="flex items-center gap-2 mb-4">
-                    <Target className="w-5 h-5 text-primary" />
-                    <h3 className="font-semibold">Progress</h3>
-                  </div>
-                  <div className="space-y-4">
-                    <div>
-                      <div className="flex justify-between text-sm mb-2">
-                        <span>JavaScript Course</span>
-                        <span>{completedLessons}/{lessons.length}</span>
-                      </div>
-                      <Progress value={progressPercentage} className="h-2" />
-                    </div>
-                    <div className="space-y-2">
-                      {lessons.map((lesson) => (
-                        <div key={lesson.id} className="flex items-center gap-2 p-2 rounded-lg hover:bg-muted/50 transition-colors">
-                          {lesson.completed ? (
-                            <CheckCircle className="w-4 h-4 text-accent" />
-                          ) : (
-                            <Circle className="w-4 h-4 text-muted-foreground" />
-                          )}
-                          <span className={`text-sm ${lesson.completed ? 'text-foreground' : 'text-muted-foreground'}`}>
-                            {lesson.title}
-                          </span>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                </Card>
-              </div>
+          {/* AI Chat */}
+          <div>
+            <AIChat context={chatContext} onApplyCode={handleApplyCode} request={chatRequest} lessonKey={lessonKey} />
+          </div>
+        </div>
 
-              <div className="lg:col-span-3">
-                <TopicSelector 
-                  selectedTopic={selectedTopic} 
-                  onTopicSelect={setSelectedTopic} 
-                />
-              </div>
-            </div>
-          </>
-        )}
+        {/* Learning Progress Sidebar */}
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <div className="lg:col-span-1">
+            <CourseProgress course={course} selectedLessonId={selectedLessonId} />
+          </div>
+
+          <div className="lg:col-span-3">
+            <TopicSelector 
+              selectedTopic={selectedTopic} 
+              onTopicSelect={handleTopicSelect} 
+            />
+          </div>
+        </div>
       </main>
+
+      <DiffPreviewDialog
+        open={suggestion !== null}
+        file={suggestionFile}
+        before={suggestionBefore}
+        after={suggestionResult?.after ?? null}
+        error={suggestionResult?.error}
+        onAccept={handleAcceptSuggestion}
+        onCancel={() => setSuggestion(null)}
+      />
     </div>
   );
 };
 
+const Index = () => {
+  const route = useLearningRoute();
+  if (route.kind === 'not-found') return <NotFound message={route.message} />;
+  if (route.kind === 'redirect') return <Navigate to={route.to} replace />;
+  const selection = { topic: route.topic, lessonId: route.lessonId, exercise: route.exercise };
+  return <Workspace key={workspaceKey(selection)} {...selection} />;
+};
+
 export default Index;
\ No newline at end of file
@@ -1,7 +1,12 @@
-import { useLocation } from "react-router-dom";
+import { Link, useLocation } from "react-router-dom";
 import { useEffect } from "react";
 
-const NotFound = () => {
+interface NotFoundProps {
+  /** What exactly wasn't found, e.g. an unknown lesson id. */
+  message?: string;
+}
+
+const NotFound = ({ message = "Oops! Page not found" }: NotFoundProps) => {
   const location = useLocation();
 
   useEffect(() => {
@@ -12,10 +17,10 @@ const NotFound = () => {
     <div className="flex min-h-screen items-center justify-center bg-gray-100">
       <div className="text-center">
         <h1 className="mb-4 text-4xl font-bold">404</h1>
-        <p className="mb-4 text-xl text-gray-600">Oops! Page not found</p>
-        <a href="/" className="text-blue-500 underline hover:text-blue-700">
+        <p className="mb-4 text-xl text-gray-600">{message}</p>
+        <Link to="/" className="text-blue-500 underline hover:text-blue-700">
           Return to Home
-        </a>
+        </Link>
       </div>
     </div>
   );
@@ -2,6 +2,11 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { viteStaticCopy } from "vite-plugin-static-copy";
+
+// Pyodide loads its wasm binary and standard library next to its own module at runtime,
+// so ship those files alongside the built chunks instead of fetching them from a CDN.
+const pyodideFiles = ["pyodide.asm.js", "pyodide.asm.wasm", "python_stdlib.zip", "pyodide-lock.json"];
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -9,7 +14,30 @@ export default defineConfig(({ mode }) => ({
     host: "::",
     port: 8080,
   },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+  plugins: [
+    react(),
+    mode === "development" && componentTagger(),
+    viteStaticCopy({
+      targets: [
+        {
+          src: pyodideFiles.map((file) => `node_modules/pyodide/${file}`),
+          dest: "assets",
+        },
+        // The React preview frame is sandboxed with an opaque origin, so it loads React as
+        // classic scripts (which need no CORS) rather than sharing the app's module graph.
+        {
+          src: ["node_modules/react/umd/react.development.js", "node_modules/react-dom/umd/react-dom.development.js"],
+          dest: "vendor",
+        },
+      ],
+    }),
+  ].filter(Boolean),
+  optimizeDeps: {
+    exclude: ["pyodide"],
+  },
+  worker: {
+    format: "es",
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),